@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import {
   FormProvider,
   useForm,
+  useFormById,
+  getFormById,
   FormTextField,
   FormDropdown,
 } from '../src';
@@ -98,6 +100,29 @@ const Form3: React.FC = () => {
   );
 };
 
+/**
+ * Toolbar outside every FormProvider; it reaches the forms through their formId
+ */
+const FormsToolbar: React.FC = () => {
+  const projectsDirty = useFormById('projects', (form) => !!form?.hasUnsavedChanges);
+  const tasksDirty = useFormById('tasks', (form) => !!form?.hasUnsavedChanges);
+
+  return (
+    <Stack horizontal tokens={{ childrenGap: 8 }} style={{ marginBottom: 16 }}>
+      <PrimaryButton
+        text="Save Projects"
+        disabled={!projectsDirty}
+        onClick={() => getFormById('projects')?.handleSubmit()}
+      />
+      <PrimaryButton
+        text="Save Tasks"
+        disabled={!tasksDirty}
+        onClick={() => getFormById('tasks')?.handleSubmit()}
+      />
+    </Stack>
+  );
+};
+
 const MultipleFormsApp: React.FC = () => {
   const [result, setResult] = useState<string | null>(null);
 
@@ -119,10 +144,13 @@ const MultipleFormsApp: React.FC = () => {
         </MessageBar>
       )}
 
+      <FormsToolbar />
+
       <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: 16 }}>
         {/* Form 1 - Projects */}
         <FormProvider
           config={{
+            formId: 'projects',
             id: 1,
             listName: 'Projects',
             listUrl: 'https://hieho.sharepoint.com/sites/apps',
@@ -149,6 +177,7 @@ const MultipleFormsApp: React.FC = () => {
         {/* Form 2 - Tasks */}
         <FormProvider
           config={{
+            formId: 'tasks',
             id: 2,
             listName: 'Tasks',
             listUrl: 'https://hieho.sharepoint.com/sites/apps',
@@ -175,6 +204,7 @@ const MultipleFormsApp: React.FC = () => {
         {/* Form 3 - Documents */}
         <FormProvider
           config={{
+            formId: 'documents',
             id: 0, // New item
             listName: 'Documents',
             listUrl: 'https://hieho.sharepoint.com/sites/apps',
@@ -207,6 +237,7 @@ const MultipleFormsApp: React.FC = () => {
           <li>Each form can have different listName, listUrl, and itemId</li>
           <li>Changing values in one form does not affect other forms</li>
           <li>Each form can be submitted independently</li>
+          <li>A formId lets code outside the FormProvider reach one specific form</li>
         </ul>
       </div>
     </div>
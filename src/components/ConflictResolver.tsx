@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogType, DialogFooter, ChoiceGroup, PrimaryButton, DefaultButton, Text } from '@fluentui/react';
+import { useFormSelector, useFormStore } from '../core/FormProvider';
+import { getFieldRules } from '../utils/validation';
+import { ConflictResolution, FormMessages, SubmitResult } from '../types';
+
+export interface ConflictResolverProps {
+  title?: string;
+  labels?: Record<string, string>; // Field labels (default: the schema rule `label`, then the field name)
+  className?: string;
+  onResolved?: (result: SubmitResult) => void; // Result of the save retried with the merged values
+}
+
+const formatConflictValue = (value: any, locale: string, messages: FormMessages): string => {
+  if (value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return '—';
+  }
+  if (value instanceof Date) {
+    return value.toLocaleString(locale);
+  }
+  if (typeof value === 'boolean') {
+    return value ? messages.yes : messages.no;
+  }
+  if (Array.isArray(value)) {
+    return value.map((entry) => formatConflictValue(entry, locale, messages)).join(', ');
+  }
+  if (typeof value === 'object') {
+    // Lookup and person values, attachments and dropdown options
+    return String(value.Title ?? value.text ?? value.name ?? value.Id ?? JSON.stringify(value));
+  }
+  return String(value);
+};
+
+/**
+ * ConflictResolver component - Dialog shown when a save hits a newer version of the item
+ * Lists each field this user changed with their value and the server's, then saves the chosen mix
+ *
+ * @example
+ * ```tsx
+ * <FormProvider config={{ listName: 'Projects', listUrl, id: itemId }}>
+ *   <ConflictResolver labels={{ Title: 'Project name' }} />
+ *   <FormTextField name="Title" label="Project name" />
+ * </FormProvider>
+ * ```
+ */
+export const ConflictResolver: React.FC<ConflictResolverProps> = ({ title, labels, className, onResolved }) => {
+  const store = useFormStore();
+  const conflict = useFormSelector((form) => form.conflict);
+  const locale = useFormSelector((form) => form.locale);
+  const messages = useFormSelector((form) => form.messages);
+  const validationSchema = useFormSelector((form) => form.config.validationSchema);
+  const [resolution, setResolution] = useState<ConflictResolution>({});
+
+  useEffect(() => {
+    setResolution({});
+  }, [conflict]);
+
+  if (!conflict) {
+    return null;
+  }
+
+  const handleSave = async () => {
+    const result = await store.getState().resolveConflict(resolution);
+    if (onResolved) {
+      onResolved(result);
+    }
+  };
+
+  return (
+    <Dialog
+      hidden={false}
+      onDismiss={() => store.getState().cancelConflict()}
+      dialogContentProps={{
+        type: DialogType.largeHeader,
+        title: title ?? messages.conflictTitle,
+        subText: messages.conflictDescription,
+      }}
+      modalProps={{ isBlocking: true, className }}
+      minWidth={480}
+    >
+      {conflict.fields.map((field) => {
+        const label = labels?.[field.name] ?? getFieldRules(validationSchema, field.name)?.label ?? field.name;
+        return (
+          <div key={field.name} className="spfx-form-handler-conflict-field">
+            <ChoiceGroup
+              label={label}
+              selectedKey={resolution[field.name] ?? 'mine'}
+              onChange={(_, option) => option && setResolution((prev) => ({ ...prev, [field.name]: option.key as 'mine' | 'theirs' }))}
+              options={[
+                { key: 'mine', text: `${messages.conflictMine}: ${formatConflictValue(field.mine, locale, messages)}` },
+                { key: 'theirs', text: `${messages.conflictTheirs}: ${formatConflictValue(field.theirs, locale, messages)}` },
+              ]}
+            />
+            {field.changedOnServer && (
+              <Text variant="small" className="spfx-form-handler-conflict-changed">{messages.conflictChangedOnServer}</Text>
+            )}
+          </div>
+        );
+      })}
+      <DialogFooter>
+        <PrimaryButton onClick={handleSave} text={messages.conflictSave} />
+        <DefaultButton onClick={() => store.getState().cancelConflict()} text={messages.conflictCancel} />
+      </DialogFooter>
+    </Dialog>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { MessageBar, MessageBarType, MessageBarButton } from '@fluentui/react';
+import { useDraft, useFormMessages } from '../core/hooks';
+
+export interface DraftRestoreBarProps {
+  message?: (savedAt?: Date) => React.ReactNode;
+  restoreText?: string;
+  discardText?: string;
+  className?: string;
+}
+
+/**
+ * DraftRestoreBar component - Offers to restore or discard a locally saved draft
+ * Renders nothing unless FormProvider has `draft` enabled and a stored draft was found
+ *
+ * @example
+ * ```tsx
+ * <FormProvider config={{ listName: 'Projects', listUrl, id: itemId, draft: true }}>
+ *   <DraftRestoreBar />
+ *   <FormTextField name="Title" label="Title" />
+ * </FormProvider>
+ * ```
+ */
+export const DraftRestoreBar: React.FC<DraftRestoreBarProps> = ({
+  message,
+  restoreText,
+  discardText,
+  className,
+}) => {
+  const { hasDraft, savedAt, restore, discard } = useDraft();
+  const { locale, messages, formatMessage } = useFormMessages();
+
+  if (!hasDraft) {
+    return null;
+  }
+
+  return (
+    <MessageBar
+      className={className}
+      messageBarType={MessageBarType.info}
+      isMultiline={false}
+      actions={
+        <div>
+          <MessageBarButton onClick={restore}>{restoreText ?? messages.restoreDraft}</MessageBarButton>
+          <MessageBarButton onClick={discard}>{discardText ?? messages.discardDraft}</MessageBarButton>
+        </div>
+      }
+    >
+      {message
+        ? message(savedAt)
+        : savedAt
+          ? formatMessage('draftFoundAt', { savedAt: savedAt.toLocaleString(locale) })
+          : messages.draftFound}
+    </MessageBar>
+  );
+};
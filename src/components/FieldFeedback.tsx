@@ -0,0 +1,17 @@
+import React from 'react';
+
+// Description and error lines under a field; their ids are what the control's aria-describedby points to
+
+export const FieldDescription: React.FC<{ id: string; children?: React.ReactNode }> = ({ id, children }) => {
+  if (!children) {
+    return null;
+  }
+  return <div id={id} className="spfx-form-handler-description">{children}</div>;
+};
+
+export const FieldError: React.FC<{ id: string; message?: string }> = ({ id, message }) => {
+  if (!message) {
+    return null;
+  }
+  return <div id={id} className="spfx-form-handler-error">{message}</div>;
+};
@@ -4,19 +4,26 @@ import {
   Stack,
   Text,
   Label,
+  Link,
   MessageBar,
   MessageBarType,
   ProgressIndicator,
 } from '@fluentui/react';
-import { useField, useFormContext } from '../../core/hooks';
+import { useField, useFormSelector } from '../../core/hooks';
+import { useCustomFieldRender } from '../../core/hooks/useCustomFieldRender';
 import { FormAttachmentPickerProps, AttachmentInfo } from './types';
 import { getAttachmentUrl, getFileIcon } from './helpers';
+import { formatMessage } from '../../utils/messages';
+import { FormDisplayField } from '../FormDisplayField';
+import { FieldDescription, FieldError } from '../FieldFeedback';
+import { joinIds } from '../../utils/a11y';
 
 export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
   name,
   label,
-  required,
-  disabled,
+  description,
+  required: requiredProp,
+  disabled: disabledProp,
   maxSize = 10 * 1024 * 1024,
   allowedFileTypes,
   maxFiles,
@@ -24,20 +31,52 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
   onFileUploaded,
   onFileRemoved,
 }) => {
-  const { value, error, touched, onChange, onBlur } = useField(name);
-  const formContext = useFormContext();
+  const { value, error, touched, visible, required: ruleRequired, disabled: ruleDisabled, readOnly, onChange, onBlur, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const listUrl = useFormSelector((form) => form.listUrl);
+  const messages = useFormSelector((form) => form.messages);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [uploading, setUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [uploadProgress, setUploadProgress] = useState(0);
 
-  const customRender = formContext.renderCustomField(name);
+  if (!visible) {
+    return null;
+  }
+
   if (customRender !== null) {
     return <>{customRender}</>;
   }
 
+  const required = ruleRequired ?? requiredProp;
+  const disabled = disabledProp || ruleDisabled || readOnly;
+
   const attachments: AttachmentInfo[] = Array.isArray(value) ? value : [];
 
+  if (isDisplay) {
+    return (
+      <FormDisplayField label={label}>
+        {attachments.length > 0 ? (
+          <ul className="spfx-form-handler-display-list">
+            {attachments.map((attachment, index) => {
+              const fileUrl = getAttachmentUrl(attachment, listUrl);
+              return (
+                <li key={attachment.id || `${attachment.name}-${index}`}>
+                  {fileUrl ? (
+                    <Link href={fileUrl} download={attachment.name} target="_blank" rel="noopener noreferrer">
+                      {attachment.name}
+                    </Link>
+                  ) : attachment.name}
+                </li>
+              );
+            })}
+          </ul>
+        ) : null}
+      </FormDisplayField>
+    );
+  }
+
   const mockUploadFile = async (file: File): Promise<AttachmentInfo> => {
     setUploadProgress(0);
     for (let i = 0; i <= 100; i += 10) {
@@ -69,7 +108,7 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
 
         if (file.size > maxSize) {
           setUploadError(
-            `File "${file.name}" exceeds maximum size of ${(maxSize / 1024 / 1024).toFixed(2)}MB`
+            formatMessage(messages.fileTooLarge, { fileName: file.name, maxSize: (maxSize / 1024 / 1024).toFixed(2) })
           );
           continue;
         }
@@ -78,14 +117,14 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
           const fileExtension = file.name.split('.').pop()?.toLowerCase();
           if (!fileExtension || !allowedFileTypes.includes(fileExtension)) {
             setUploadError(
-              `File "${file.name}" is not allowed. Allowed types: ${allowedFileTypes.join(', ')}`
+              formatMessage(messages.fileTypeNotAllowed, { fileName: file.name, allowedTypes: allowedFileTypes.join(', ') })
             );
             continue;
           }
         }
 
         if (maxFiles && attachments.length + newAttachments.length >= maxFiles) {
-          setUploadError(`Maximum ${maxFiles} file(s) allowed`);
+          setUploadError(formatMessage(messages.maxFilesExceeded, { maxFiles }));
           break;
         }
 
@@ -103,7 +142,7 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
         onChange(updatedAttachments);
       }
     } catch (err: any) {
-      setUploadError(err.message || 'Failed to upload file');
+      setUploadError(err.message || messages.uploadFailed);
     } finally {
       setUploading(false);
       setUploadProgress(0);
@@ -135,9 +174,9 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
   const errorMessage = touched && error ? error.message : undefined;
 
   return (
-    <div>
+    <div ref={ref} role="group" aria-labelledby={label ? ids.label : undefined}>
       {label && (
-        <Label required={required} disabled={disabled}>
+        <Label id={ids.label} required={required} disabled={disabled}>
           {label}
         </Label>
       )}
@@ -155,7 +194,7 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
       {uploading && (
         <div style={{ marginBottom: 8 }}>
           <ProgressIndicator
-            label="Uploading..."
+            label={messages.uploading}
             percentComplete={uploadProgress / 100}
           />
         </div>
@@ -174,23 +213,26 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
 
       <Stack horizontal tokens={{ childrenGap: 8 }} style={{ marginBottom: 8 }}>
         <IconButton
+          id={ids.input}
           iconProps={{ iconName: 'Attach' }}
-          title="Attach file"
+          title={messages.attachFile}
+          ariaLabel={messages.attachFile}
+          aria-describedby={joinIds(description && ids.description, errorMessage && ids.error)}
           onClick={() => fileInputRef.current?.click()}
           disabled={disabled || uploading || (maxFiles ? attachments.length >= maxFiles : false)}
         />
         <Text variant="small" style={{ alignSelf: 'center' }}>
           {maxFiles
-            ? `${attachments.length}/${maxFiles} files`
-            : `${attachments.length} file(s)`}
-          {maxSize && ` • Max ${(maxSize / 1024 / 1024).toFixed(2)}MB per file`}
+            ? formatMessage(messages.fileCountOfMax, { count: attachments.length, maxFiles })
+            : formatMessage(messages.fileCount, { count: attachments.length })}
+          {maxSize && ` • ${formatMessage(messages.maxFileSize, { maxSize: (maxSize / 1024 / 1024).toFixed(2) })}`}
         </Text>
       </Stack>
 
       {attachments.length > 0 && (
         <div style={{ marginTop: 8 }}>
           {attachments.map((attachment, index) => {
-            const fileUrl = getAttachmentUrl(attachment, formContext.listUrl);
+            const fileUrl = getAttachmentUrl(attachment, listUrl);
             return (
               <div
                 key={attachment.id || `${attachment.name}-${index}`}
@@ -233,7 +275,7 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
                           color: '#0078d4',
                           textDecoration: 'underline',
                         }}
-                        title={`Click to open ${attachment.name} in new tab`}
+                        title={formatMessage(messages.openFileInNewTab, { fileName: attachment.name })}
                       >
                         {attachment.name}
                       </Text>
@@ -254,7 +296,7 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
                 </div>
                 <IconButton
                   iconProps={{ iconName: 'Cancel' }}
-                  title="Remove"
+                  title={messages.remove}
                   onClick={() => handleRemove(attachment)}
                   disabled={disabled}
                   style={{ marginLeft: 8 }}
@@ -267,15 +309,12 @@ export const FormAttachmentPicker: React.FC<FormAttachmentPickerProps> = ({
 
       {attachments.length === 0 && !uploading && (
         <Text variant="small" style={{ color: '#666', fontStyle: 'italic' }}>
-          No attachments. Click the attach button to add files.
+          {messages.noAttachments}
         </Text>
       )}
 
-      {errorMessage && (
-        <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, marginTop: 4 }}>
-          {errorMessage}
-        </div>
-      )}
+      <FieldDescription id={ids.description}>{description}</FieldDescription>
+      <FieldError id={ids.error} message={errorMessage} />
     </div>
   );
 };
@@ -10,6 +10,7 @@ export interface AttachmentInfo {
 export interface FormAttachmentPickerProps {
   name: string;
   label?: string;
+  description?: string;
   required?: boolean;
   disabled?: boolean;
   maxSize?: number;
@@ -1,9 +1,14 @@
 import React from 'react';
 import { Checkbox, ICheckboxProps } from '@fluentui/react';
-import { useField, useFormContext } from '../core/hooks';
+import { useField, useFormSelector } from '../core/hooks';
+import { useCustomFieldRender } from '../core/hooks/useCustomFieldRender';
+import { FormDisplayField } from './FormDisplayField';
+import { FieldDescription, FieldError } from './FieldFeedback';
+import { joinIds } from '../utils/a11y';
 
 export interface FormCheckboxProps extends Omit<ICheckboxProps, 'checked' | 'onChange' | 'onBlur'> {
   name: string;
+  description?: string;
 }
 
 /**
@@ -17,28 +22,50 @@ export interface FormCheckboxProps extends Omit<ICheckboxProps, 'checked' | 'onC
  * />
  * ```
  */
-export const FormCheckbox: React.FC<FormCheckboxProps> = ({ name, ...props }) => {
-  const { value, onChange, onBlur } = useField(name);
-  const formContext = useFormContext();
+export const FormCheckbox: React.FC<FormCheckboxProps> = ({ name, description, ...props }) => {
+  const { value, error, touched, visible, required, disabled, readOnly, onChange, onBlur, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
+  const messages = useFormSelector((form) => form.messages);
+
+  if (!visible) {
+    return null;
+  }
 
   // Check if custom render is provided
-  const customRender = formContext.renderCustomField(name);
   if (customRender !== null) {
     return <>{customRender}</>;
   }
 
+  if (isDisplay) {
+    return (
+      <FormDisplayField label={props.label} className={props.className}>
+        {value ? messages.yes : messages.no}
+      </FormDisplayField>
+    );
+  }
+
   // Default render
   const handleChange = (_e?: React.FormEvent<HTMLElement | HTMLInputElement>, checked?: boolean) => {
     onChange(checked || false);
   };
 
+  const errorMessage = touched && error ? error.message : undefined;
+
   return (
-    <div onBlur={onBlur}>
+    <div ref={ref} onBlur={onBlur}>
       <Checkbox
         {...props}
+        id={props.id ?? ids.input}
+        ariaDescribedBy={joinIds(props.ariaDescribedBy, description && ids.description, errorMessage && ids.error)}
+        inputProps={{ ...props.inputProps, 'aria-invalid': !!errorMessage }}
+        required={required ?? props.required}
+        disabled={props.disabled || disabled || readOnly}
         checked={value || false}
         onChange={handleChange}
       />
+      <FieldDescription id={ids.description}>{description}</FieldDescription>
+      <FieldError id={ids.error} message={errorMessage} />
     </div>
   );
 };
@@ -1,5 +1,7 @@
 import React from 'react';
-import { useFormContext } from '../core/FormProvider';
+import { useFormSelector } from '../core/FormProvider';
+import { useFieldScopeRegistration } from '../core/hooks/useFieldRegistration';
+import { useCustomFieldRender } from '../core/hooks/useCustomFieldRender';
 
 export interface FormCustomFieldProps {
   name: string;
@@ -37,9 +39,13 @@ export interface FormCustomFieldProps {
  * ```
  */
 export const FormCustomField: React.FC<FormCustomFieldProps> = ({ name, fallback }) => {
-  const { renderCustomField } = useFormContext();
+  useFieldScopeRegistration(name);
+  const visible = useFormSelector((form) => form.getFieldRuleState(name).visible !== false);
+  const customRender = useCustomFieldRender(name);
 
-  const customRender = renderCustomField(name);
+  if (!visible) {
+    return null;
+  }
 
   if (customRender !== null) {
     return <>{customRender}</>;
@@ -1,6 +1,8 @@
 import React from 'react';
 import { DatePicker, IDatePickerProps } from '@fluentui/react';
-import { useField, useFormContext } from '../core/hooks';
+import { useField, useFormSelector } from '../core/hooks';
+import { useCustomFieldRender } from '../core/hooks/useCustomFieldRender';
+import { FormDisplayField } from './FormDisplayField';
 
 export interface FormDatePickerProps extends Omit<IDatePickerProps, 'value' | 'onSelectDate' | 'onBlur'> {
   name: string;
@@ -20,11 +22,16 @@ export interface FormDatePickerProps extends Omit<IDatePickerProps, 'value' | 'o
  * ```
  */
 export const FormDatePicker: React.FC<FormDatePickerProps> = ({ name, ...props }) => {
-  const { value, error, touched, onChange, onBlur } = useField(name);
-  const formContext = useFormContext();
+  const { value, error, touched, visible, required, disabled, readOnly, onChange, onBlur, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
+  const locale = useFormSelector((form) => form.locale);
+
+  if (!visible) {
+    return null;
+  }
 
   // Check if custom render is provided
-  const customRender = formContext.renderCustomField(name);
   if (customRender !== null) {
     return <>{customRender}</>;
   }
@@ -49,6 +56,15 @@ export const FormDatePicker: React.FC<FormDatePickerProps> = ({ name, ...props }
     return undefined;
   };
 
+  if (isDisplay) {
+    const date = getDateValue();
+    return (
+      <FormDisplayField label={props.label} className={props.className}>
+        {date ? (props.formatDate ? props.formatDate(date) : date.toLocaleDateString(locale)) : ''}
+      </FormDisplayField>
+    );
+  }
+
   // Default render
   const handleSelectDate = (date: Date | null | undefined) => {
     onChange(date || null);
@@ -57,10 +73,18 @@ export const FormDatePicker: React.FC<FormDatePickerProps> = ({ name, ...props }
   const errorMessage = touched && error ? error.message : undefined;
 
   return (
-    <div>
+    <div ref={ref}>
       <DatePicker
         {...props}
+        isRequired={required ?? props.isRequired}
+        disabled={props.disabled || disabled || readOnly}
         value={getDateValue()}
+        // The error goes through the inner TextField so it is announced and linked with aria-describedby/aria-invalid
+        textField={{
+          ...props.textField,
+          id: props.textField?.id ?? ids.input,
+          ...(errorMessage ? { errorMessage } : {}),
+        }}
         onSelectDate={handleSelectDate}
         onBlur={onBlur}
         placeholder={props.placeholder}
@@ -86,11 +110,6 @@ export const FormDatePicker: React.FC<FormDatePickerProps> = ({ name, ...props }
           },
         } : (props.styles || {})}
       />
-      {errorMessage && (
-        <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, marginTop: 4 }}>
-          {errorMessage}
-        </div>
-      )}
     </div>
   );
 };
@@ -0,0 +1,36 @@
+import React from 'react';
+import { Label } from '@fluentui/react';
+
+export interface FormDisplayFieldProps {
+  label?: string;
+  className?: string;
+  multiline?: boolean; // Keep line breaks of multi-line text
+  children?: React.ReactNode;
+}
+
+/**
+ * FormDisplayField component - Read-only label and value
+ * Every Form* component renders through it when the form is in display mode
+ *
+ * @example
+ * ```tsx
+ * <FormDisplayField label="Title">{values.Title}</FormDisplayField>
+ * ```
+ */
+export const FormDisplayField: React.FC<FormDisplayFieldProps> = ({
+  label,
+  className,
+  multiline,
+  children,
+}) => {
+  const isEmpty = children === undefined || children === null || children === '' || (Array.isArray(children) && children.length === 0);
+
+  return (
+    <div className={`spfx-form-handler-display-field ${className || ''}`.trim()}>
+      {label && <Label>{label}</Label>}
+      <div className={`spfx-form-handler-display-value${multiline ? ' is-multiline' : ''}`}>
+        {isEmpty ? <span className="spfx-form-handler-display-empty">—</span> : children}
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,17 @@
 import React, { useMemo, useCallback } from 'react';
 import { ReactSelectify, Option } from 'react-selectify';
 import { Label } from '@fluentui/react';
-import { useField, useFormContext } from '../core/hooks';
+import { useField, useFormSelector } from '../core/hooks';
+import { FormDisplayField } from './FormDisplayField';
+import { FieldDescription, FieldError } from './FieldFeedback';
+import { useControlAria } from '../core/hooks/useControlAria';
+import { useCustomFieldRender } from '../core/hooks/useCustomFieldRender';
+import { joinIds } from '../utils/a11y';
 
 export interface FormDropdownProps {
   name: string;
   label?: string;
+  description?: string;
   options?: Array<{ key: string; text: string }>; // Options for the dropdown
   required?: boolean;
   disabled?: boolean;
@@ -31,15 +37,10 @@ export interface FormDropdownProps {
  * />
  * ```
  */
-export const FormDropdown: React.FC<FormDropdownProps> = ({ name, label, options = [], required, disabled, placeholder, className, styles }) => {
-  const { value, error, touched, onChange } = useField(name);
-  const formContext = useFormContext();
-
-  // Check if custom render is provided
-  const customRender = formContext.renderCustomField(name);
-  if (customRender !== null) {
-    return <>{customRender}</>;
-  }
+export const FormDropdown: React.FC<FormDropdownProps> = ({ name, label, description, options = [], required: requiredProp, disabled: disabledProp, placeholder, className, styles }) => {
+  const { value, error, touched, visible, required: ruleRequired, disabled: ruleDisabled, readOnly, onChange, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
 
   // Convert options to react-selectify format
   const reactSelectifyOptions: Option[] = useMemo(() => {
@@ -74,11 +75,38 @@ export const FormDropdown: React.FC<FormDropdownProps> = ({ name, label, options
   }, [onChange]);
 
   const errorMessage = touched && error ? error.message : undefined;
+  const required = ruleRequired ?? requiredProp;
+  const disabled = disabledProp || ruleDisabled || readOnly;
+  const controlRef = useControlAria({
+    id: ids.input,
+    'aria-labelledby': label ? ids.label : undefined,
+    'aria-describedby': joinIds(description && ids.description, errorMessage && ids.error),
+    'aria-invalid': errorMessage ? 'true' : undefined,
+    'aria-required': required ? 'true' : undefined,
+  }, ref);
+
+  if (!visible) {
+    return null;
+  }
+
+  // Check if custom render is provided
+  if (customRender !== null) {
+    return <>{customRender}</>;
+  }
+
+  if (isDisplay) {
+    const selected = options.find((opt) => String(opt.key) === String(value));
+    return (
+      <FormDisplayField label={label} className={className}>
+        {selected ? selected.text : (value === null || value === undefined ? '' : String(value))}
+      </FormDisplayField>
+    );
+  }
 
   return (
-    <div>
+    <div ref={controlRef}>
       {label && (
-        <Label required={required} disabled={disabled}>
+        <Label id={ids.label} htmlFor={ids.input} required={required} disabled={disabled}>
           {label}
         </Label>
       )}
@@ -105,11 +133,8 @@ export const FormDropdown: React.FC<FormDropdownProps> = ({ name, label, options
           ...(styles || {}),
         }}
       />
-      {errorMessage && (
-        <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, marginTop: 4 }}>
-          {errorMessage}
-        </div>
-      )}
+      <FieldDescription id={ids.description}>{description}</FieldDescription>
+      <FieldError id={ids.error} message={errorMessage} />
     </div>
   );
 };
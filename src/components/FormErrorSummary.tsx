@@ -0,0 +1,66 @@
+import React from 'react';
+import { MessageBar, MessageBarType, Link } from '@fluentui/react';
+import { useFormSelector, useFormStore } from '../core/FormProvider';
+import { FORM_ERROR, getFieldRules } from '../utils/validation';
+
+export interface FormErrorSummaryProps {
+  title?: string;
+  labels?: Record<string, string>; // Field labels shown in the list (default: the schema rule `label`, then the field name)
+  className?: string;
+}
+
+interface ErrorSummaryEntry {
+  name: string;
+  label?: string;
+  message: string;
+}
+
+const entriesEqual = (a: ErrorSummaryEntry[], b: ErrorSummaryEntry[]) =>
+  a.length === b.length && a.every((entry, index) => (
+    entry.name === b[index].name && entry.label === b[index].label && entry.message === b[index].message
+  ));
+
+/**
+ * FormErrorSummary component - Lists the form's errors, each linking to its field
+ * Field errors appear once the field is touched (every field is touched by a submit); form-level errors always appear
+ *
+ * @example
+ * ```tsx
+ * <FormProvider config={{ listName: 'Projects', listUrl, validationSchema }}>
+ *   <FormErrorSummary labels={{ Title: 'Project name' }} />
+ *   <FormTextField name="Title" label="Project name" />
+ * </FormProvider>
+ * ```
+ */
+export const FormErrorSummary: React.FC<FormErrorSummaryProps> = ({ title, labels, className }) => {
+  const store = useFormStore();
+  const defaultTitle = useFormSelector((form) => form.messages.errorSummaryTitle);
+  const entries = useFormSelector((form): ErrorSummaryEntry[] => Object.keys(form.errors)
+    .filter((name) => form.errors[name] && (name === FORM_ERROR || form.touched[name]))
+    .map((name) => ({
+      name,
+      label: name === FORM_ERROR ? undefined : labels?.[name] ?? getFieldRules(form.config.validationSchema, name)?.label ?? name,
+      message: form.errors[name]!.message,
+    })), entriesEqual);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <MessageBar className={className} messageBarType={MessageBarType.error} isMultiline>
+      <div>{title ?? defaultTitle}</div>
+      <ul style={{ margin: '4px 0 0', paddingLeft: 20 }}>
+        {entries.map((entry) => (
+          <li key={entry.name}>
+            {entry.label ? (
+              <Link onClick={() => store.getState().focusField(entry.name)}>
+                {entry.label}: {entry.message}
+              </Link>
+            ) : entry.message}
+          </li>
+        ))}
+      </ul>
+    </MessageBar>
+  );
+};
@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import { Spinner } from '@fluentui/react';
-import { useFormContext } from '../core/hooks';
+import { useFormSelector } from '../core/hooks';
+import { shallowEqual } from '../core/formStore';
+import { formatMessage } from '../utils/messages';
+import { cacheKey, getCachedResponse, getListVersion } from '../services/cacheService';
 import { SharePointFieldMetadata } from '../types';
 import { FormTextField } from './FormTextField';
 import { FormDropdown } from './FormDropdown';
@@ -21,9 +24,6 @@ export interface FormFieldProps {
   componentProps?: Record<string, any>;
 }
 
-// Cache for field metadata to avoid multiple API calls
-const fieldMetadataCache = new Map<string, SharePointFieldMetadata>();
-
 /**
  * FormField component - Automatically renders the correct form component
  * based on SharePoint field type from field metadata
@@ -54,33 +54,23 @@ export const FormField: React.FC<FormFieldProps> = ({
   placeholder,
   componentProps = {},
 }) => {
-  const formContext = useFormContext();
+  const { listName, listUrl, apiService, cache, registerField, messages } = useFormSelector(
+    (form) => ({ listName: form.listName, listUrl: form.listUrl, apiService: form.apiService, cache: form.cache, registerField: form.registerField, messages: form.messages }),
+    shallowEqual
+  );
+  const failedToLoadFieldMetadata = messages.failedToLoadFieldMetadata;
   const [fieldMetadata, setFieldMetadata] = useState<SharePointFieldMetadata | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [loadError, setLoadError] = useState<string | null>(null);
 
-  const listName = formContext.listName;
-  const listUrl = formContext.listUrl;
-  const apiService = formContext.apiService;
-
-  // Cache key
-  const cacheKey = `${listName || 'default'}_${listUrl || 'default'}_${fieldName}`;
-
   useEffect(() => {
-    if (formContext.registerField && fieldName) {
-      formContext.registerField(fieldName);
+    if (registerField && fieldName) {
+      registerField(fieldName);
     }
-  }, [fieldName, formContext.registerField]);
+  }, [fieldName, registerField]);
 
   // Load field metadata
   useEffect(() => {
-    // Check cache first
-    if (fieldMetadataCache.has(cacheKey)) {
-      setFieldMetadata(fieldMetadataCache.get(cacheKey)!);
-      setIsLoading(false);
-      return;
-    }
-
     // If no listName, can't load metadata
     if (!listName) {
       setIsLoading(false);
@@ -97,25 +87,31 @@ export const FormField: React.FC<FormFieldProps> = ({
           throw new Error('getFieldMetadata method is not available in API service. Please provide a valid API service with listUrl.');
         }
 
-        const response = await (apiService.getFieldMetadata as (listName: string, fieldName: string, listUrl?: string) => Promise<any>)(listName, fieldName, listUrl);
+        const getFieldMetadata = apiService.getFieldMetadata as (listName: string, fieldName: string, listUrl?: string) => Promise<any>;
+        // Served from the cache until it expires or the list's columns change
+        const version = await getListVersion(cache, listName, listUrl, apiService.getListInfo);
+        const response = await getCachedResponse(
+          cache,
+          'fieldMetadata',
+          cacheKey(listUrl, listName, fieldName),
+          () => getFieldMetadata(listName, fieldName, listUrl),
+          version?.schema
+        );
 
         if (response.success && response.data) {
-          const metadata = response.data as SharePointFieldMetadata;
-          setFieldMetadata(metadata);
-          // Cache the metadata
-          fieldMetadataCache.set(cacheKey, metadata);
+          setFieldMetadata(response.data as SharePointFieldMetadata);
         } else {
-          setLoadError(response.error || 'Failed to load field metadata');
+          setLoadError(response.error || failedToLoadFieldMetadata);
         }
       } catch (error: any) {
-        setLoadError(error.message || 'Failed to load field metadata');
+        setLoadError(error.message || failedToLoadFieldMetadata);
       } finally {
         setIsLoading(false);
       }
     };
 
     loadMetadata();
-  }, [listName, listUrl, fieldName, cacheKey, apiService]);
+  }, [listName, listUrl, fieldName, apiService, cache, failedToLoadFieldMetadata]);
 
   // Determine field name for form (use InternalName or fieldName)
   const formFieldName = fieldMetadata?.InternalName || fieldName;
@@ -125,12 +121,18 @@ export const FormField: React.FC<FormFieldProps> = ({
   const isRequired = required !== undefined ? required : (fieldMetadata?.Required || false);
   const isDisabled = disabled || fieldMetadata?.ReadOnlyField || false;
 
+  const visible = useFormSelector((form) => form.getFieldRuleState(formFieldName).visible !== false);
+
+  if (!visible) {
+    return null;
+  }
+
   // Render based on field type
   const renderField = () => {
     if (isLoading) {
       return (
         <div style={{ padding: '8px 0' }}>
-          <Spinner label={`Loading ${fieldName}...`} />
+          <Spinner label={formatMessage(messages.loadingField, { field: fieldName })} />
         </div>
       );
     }
@@ -138,7 +140,7 @@ export const FormField: React.FC<FormFieldProps> = ({
     if (loadError) {
       return (
         <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, padding: '8px 0' }}>
-          Error loading field: {loadError}
+          {messages.failedToLoadFieldMetadata}: {loadError}
         </div>
       );
     }
@@ -0,0 +1,34 @@
+import React from 'react';
+import { useFieldArray } from '../core/hooks';
+import { UseFieldArrayReturn } from '../types';
+
+export interface FormFieldArrayProps {
+  name: string;
+  children: (fieldArray: UseFieldArrayReturn) => React.ReactNode;
+}
+
+/**
+ * FormFieldArray component - Render prop wrapper around useFieldArray for repeating rows
+ *
+ * @example
+ * ```tsx
+ * <FormFieldArray name="lines">
+ *   {({ fields, append, remove }) => (
+ *     <>
+ *       {fields.map((field) => (
+ *         <div key={field.key}>
+ *           <FormTextField name={`${field.name}.Description`} label="Description" />
+ *           <FormTextField name={`${field.name}.Amount`} label="Amount" type="number" />
+ *           <DefaultButton text="Remove" onClick={() => remove(field.index)} />
+ *         </div>
+ *       ))}
+ *       <DefaultButton text="Add line" onClick={() => append({ Description: '', Amount: 0 })} />
+ *     </>
+ *   )}
+ * </FormFieldArray>
+ * ```
+ */
+export const FormFieldArray: React.FC<FormFieldArrayProps> = ({ name, children }) => {
+  const fieldArray = useFieldArray(name);
+  return <>{children(fieldArray)}</>;
+};
@@ -1,13 +1,23 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { ReactSelectify, Option } from 'react-selectify';
-import { Label, Spinner } from '@fluentui/react';
+import { Label, Link, Spinner, ComboBox, Text } from '@fluentui/react';
 import { useField } from '../core/hooks';
-import { useFormContext } from '../core/FormProvider';
+import { useFormSelector } from '../core/FormProvider';
+import { formatMessage } from '../utils/messages';
+import { extractWebUrl } from '../utils/formHelpers';
+import { cacheKey, getCachedResponse, getListVersion } from '../services/cacheService';
+import { FormDisplayField } from './FormDisplayField';
+import { FieldDescription, FieldError } from './FieldFeedback';
+import { useControlAria } from '../core/hooks/useControlAria';
+import { useLookupSearch, toLookupOption, getLookupId } from '../core/hooks/useLookupSearch';
+import { useCustomFieldRender } from '../core/hooks/useCustomFieldRender';
+import { joinIds } from '../utils/a11y';
 
 
 export interface FormLookupProps {
   name: string;
   label?: string;
+  description?: string;
   multiSelect?: boolean;
   lookupList: string; // List name to load lookup options from
   lookupListUrl?: string; // Optional: URL of the lookup list (defaults to form's listUrl)
@@ -21,6 +31,11 @@ export interface FormLookupProps {
   className?: string;
   styles?: { [key: string]: React.CSSProperties };
   positionOffset?: 'bottom' | 'top';
+  getItemUrl?: (id: string) => string | undefined; // Link target in display mode (default: the lookup list's DispForm.aspx)
+  serverSearch?: boolean; // Search SharePoint as the user types and page the results (default: on when apiService.searchListItems exists); false loads every item
+  searchOperator?: 'startswith' | 'substringof'; // Default: 'startswith'; index `lookupField` on lists over the view threshold
+  searchFilter?: string; // OData filter applied before the search, ideally on an indexed column (e.g. "Status eq 'Active'")
+  pageSize?: number; // Items per page with serverSearch (default: 50)
 }
 
 /**
@@ -33,6 +48,7 @@ export interface FormLookupProps {
 export const FormLookup: React.FC<FormLookupProps> = ({
   name,
   label,
+  description,
   multiSelect = false,
   lookupList,
   lookupListUrl,
@@ -41,26 +57,51 @@ export const FormLookup: React.FC<FormLookupProps> = ({
   options: customOptions,
   positionOffset = 'bottom',
   onLoadOptions,
-  required,
-  disabled,
+  required: requiredProp,
+  disabled: disabledProp,
   placeholder,
   className,
   styles,
+  getItemUrl,
+  serverSearch,
+  searchOperator,
+  searchFilter,
+  pageSize,
 }) => {
-  const { value, error, touched, onChange } = useField(name);
-  const formContext = useFormContext();
+  const { value, error, touched, visible, required: ruleRequired, disabled: ruleDisabled, readOnly, onChange, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const formListUrl = useFormSelector((form) => form.listUrl);
+  const apiService = useFormSelector((form) => form.apiService);
+  const cache = useFormSelector((form) => form.cache);
+  const messages = useFormSelector((form) => form.messages);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
+  const failedToLoadOptions = messages.failedToLoadOptions;
   const [options, setOptions] = useState<Array<{ key: string; text: string }>>([]);
   const [isLoadingOptions, setIsLoadingOptions] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
-
-  // Check if custom render is provided
-  const customRender = formContext.renderCustomField(name);
-  if (customRender !== null) {
-    return <>{customRender}</>;
-  }
+  // Options given by the caller win over serverSearch
+  const isServerSearch = (serverSearch ?? !!apiService.searchListItems) && !customOptions && !onLoadOptions;
+  const selectedValues = useMemo(
+    () => (multiSelect ? (Array.isArray(value) ? value : []) : (value ? [value] : [])),
+    [value, multiSelect]
+  );
+  const search = useLookupSearch({
+    enabled: isServerSearch && !!lookupList,
+    searchListItems: apiService.searchListItems,
+    listName: lookupList,
+    listUrl: lookupListUrl || formListUrl,
+    lookupField,
+    lookupValueField,
+    operator: searchOperator,
+    filter: searchFilter,
+    pageSize,
+    selectedValues,
+    failedMessage: failedToLoadOptions,
+  });
+  const availableOptions = isServerSearch ? search.options : options;
 
   // Determine the URL to use for lookup list
-  const targetListUrl = lookupListUrl || formContext.listUrl;
+  const targetListUrl = lookupListUrl || formListUrl;
 
   // Load options from SharePoint list
   useEffect(() => {
@@ -80,13 +121,17 @@ export const FormLookup: React.FC<FormLookupProps> = ({
           setIsLoadingOptions(false);
         })
         .catch((err) => {
-          setLoadError(err.message || 'Failed to load options');
+          setLoadError(err.message || failedToLoadOptions);
           setOptions([]);
           setIsLoadingOptions(false);
         });
       return;
     }
 
+    if (isServerSearch) {
+      return;
+    }
+
     const loadOptions = async () => {
       if (!lookupList) {
         setOptions([]);
@@ -97,13 +142,22 @@ export const FormLookup: React.FC<FormLookupProps> = ({
       setLoadError(null);
 
       try {
-        const apiService = formContext.apiService;
-
         if (!apiService || !('getListItems' in apiService) || !apiService.getListItems) {
           throw new Error('getListItems method is not available in API service. Please provide a valid API service with listUrl.');
         }
 
-        const response = await apiService.getListItems(lookupList, targetListUrl);
+        const getListItems = apiService.getListItems;
+        // Served from the cache until it expires or an item of the lookup list changes
+        const version = await getListVersion(cache, lookupList, targetListUrl, apiService.getListInfo);
+        const response = await getCachedResponse<any>(
+          cache,
+          'lookupItems',
+          cacheKey(targetListUrl, lookupList, lookupValueField, lookupField),
+          () => getListItems(lookupList, targetListUrl, {
+            select: lookupValueField === lookupField ? [lookupValueField] : [lookupValueField, lookupField],
+          }),
+          version?.items
+        );
 
         if (response.success && response.data) {
           // Handle different response formats
@@ -111,18 +165,13 @@ export const FormLookup: React.FC<FormLookupProps> = ({
             ? response.data
             : (response.data.value || response.data.results || []);
 
-          const mappedOptions = items.map((item: any) => ({
-            key: String(item[lookupValueField] || item.Id || item.id),
-            text: item[lookupField] || item.Title || item.title || String(item[lookupValueField] || item.Id),
-          }));
-
-          setOptions(mappedOptions);
+          setOptions(items.map((item: any) => toLookupOption(item, lookupField, lookupValueField)));
         } else {
-          setLoadError(response.error || 'Failed to load options');
+          setLoadError(response.error || failedToLoadOptions);
           setOptions([]);
         }
       } catch (error: any) {
-        setLoadError(error.message || 'Failed to load lookup options');
+        setLoadError(error.message || failedToLoadOptions);
         setOptions([]);
       } finally {
         setIsLoadingOptions(false);
@@ -130,7 +179,7 @@ export const FormLookup: React.FC<FormLookupProps> = ({
     };
 
     loadOptions();
-  }, [lookupList, targetListUrl, customOptions, onLoadOptions, lookupField, lookupValueField, formContext.config]);
+  }, [lookupList, targetListUrl, customOptions, onLoadOptions, lookupField, lookupValueField, apiService, cache, failedToLoadOptions, isServerSearch]);
 
   // Convert options to react-selectify format
   const reactSelectifyOptions: Option[] = useMemo(() => {
@@ -197,7 +246,7 @@ export const FormLookup: React.FC<FormLookupProps> = ({
           }));
         } else {
           // Find option object from options to keep the object structure
-          const selectedOption = options.find(opt => String(opt.key) === optionId);
+          const selectedOption = availableOptions.find(opt => String(opt.key) === optionId);
           if (selectedOption) {
             onChange([...currentValues, { Id: option.key, [lookupField]: option.text }]);
           } else {
@@ -206,7 +255,7 @@ export const FormLookup: React.FC<FormLookupProps> = ({
         }
       } else {
         // Single select: save object with Id and Title
-        const selectedOption = options.find(opt => String(opt.key) === String(option.key));
+        const selectedOption = availableOptions.find(opt => String(opt.key) === String(option.key));
         if (selectedOption) {
           onChange({ Id: option.key, [lookupField]: option.text });
         } else {
@@ -214,28 +263,124 @@ export const FormLookup: React.FC<FormLookupProps> = ({
         }
       }
     }, 0);
-  }, [multiSelect, value, options, lookupField, onChange]);
+  }, [multiSelect, value, availableOptions, lookupField, onChange]);
 
   const errorMessage = touched && error ? error.message : undefined;
+  const required = ruleRequired ?? requiredProp;
+  const disabled = disabledProp || ruleDisabled || readOnly;
+  // A failed options load is reported in the error slot until the field has its own error
+  const optionsError = isServerSearch ? search.searchError : loadError;
+  const feedbackError = errorMessage || (optionsError && !touched ? `${messages.failedToLoadOptions}: ${optionsError}` : undefined);
+  const controlRef = useControlAria({
+    id: ids.input,
+    'aria-labelledby': label ? ids.label : undefined,
+    'aria-describedby': joinIds(description && ids.description, feedbackError && ids.error),
+    'aria-invalid': errorMessage ? 'true' : undefined,
+    'aria-required': required ? 'true' : undefined,
+  }, ref);
+
+  if (!visible) {
+    return null;
+  }
+
+  // Check if custom render is provided
+  if (customRender !== null) {
+    return <>{customRender}</>;
+  }
+
+  if (isDisplay) {
+    const webUrl = extractWebUrl(targetListUrl);
+    const items = selectedValues.map((v: any) => {
+      const id = getLookupId(v);
+      const text = (typeof v === 'object' && (v[lookupField] || v.Title)) || availableOptions.find((opt) => opt.key === id)?.text || id;
+      const href = getItemUrl
+        ? getItemUrl(id)
+        : webUrl ? `${webUrl}/Lists/${encodeURIComponent(lookupList)}/DispForm.aspx?ID=${id}` : undefined;
+      return { id, text, href };
+    });
+
+    return (
+      <FormDisplayField label={label} className={className}>
+        {items.length > 0 ? (
+          <ul className="spfx-form-handler-display-list">
+            {items.map((item) => (
+              <li key={item.id}>
+                {item.href ? <Link href={item.href} target="_blank">{item.text}</Link> : item.text}
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </FormDisplayField>
+    );
+  }
+
+  if (isServerSearch) {
+    return (
+      <div ref={controlRef}>
+        {label && (
+          <Label id={ids.label} htmlFor={ids.input} required={required} disabled={disabled}>
+            {label}
+          </Label>
+        )}
+        <ComboBox
+          allowFreeform
+          autoComplete="off"
+          useComboBoxAsMenuWidth
+          multiSelect={multiSelect}
+          options={search.options}
+          selectedKey={multiSelect ? selectedKeys : (selectedKeys[0] ?? null)}
+          disabled={disabled}
+          placeholder={placeholder || formatMessage(messages.searchList, { list: lookupList })}
+          className={`${className || ''} ${errorMessage ? 'form-field-error' : ''}`.trim()}
+          onMenuOpen={search.activate}
+          onInputValueChange={search.setSearchText}
+          onChange={(_event, option, _index, text) => {
+            if (option) {
+              handleChange(undefined, { key: String(option.key), text: option.text });
+            } else if (!multiSelect && !text) {
+              // Emptying the input clears a single lookup; other free text is not a selection
+              handleChange();
+            }
+          }}
+          onRenderLowerContent={() => (
+            <div className="spfx-form-handler-lookup-footer">
+              {search.isSearching ? (
+                <Spinner label={messages.loadingOptions} />
+              ) : search.hasMore ? (
+                // Keeps focus in the input so the menu stays open
+                <Link onMouseDown={(event) => event.preventDefault()} onClick={search.loadMore}>{messages.loadMore}</Link>
+              ) : search.options.length === 0 ? (
+                <Text variant="small">{messages.noResultsFound}</Text>
+              ) : null}
+            </div>
+          )}
+        />
+        <FieldDescription id={ids.description}>{description}</FieldDescription>
+        <FieldError id={ids.error} message={feedbackError} />
+      </div>
+    );
+  }
 
   // Show loading state
   if (isLoadingOptions && options.length === 0) {
     return (
-      <div>
+      <div ref={controlRef}>
         {label && (
-          <Label required={required} disabled={disabled}>
+          <Label id={ids.label} required={required} disabled={disabled}>
             {label}
           </Label>
         )}
-        <Spinner label="Loading options..." />
+        <Spinner label={messages.loadingOptions} />
+        <FieldDescription id={ids.description}>{description}</FieldDescription>
+        <FieldError id={ids.error} message={feedbackError} />
       </div>
     );
   }
 
   return (
-    <div>
+    <div ref={controlRef}>
       {label && (
-        <Label required={required} disabled={disabled}>
+        <Label id={ids.label} htmlFor={ids.input} required={required} disabled={disabled}>
           {label}
         </Label>
       )}
@@ -251,8 +396,10 @@ export const FormLookup: React.FC<FormLookupProps> = ({
         placeholder={
           placeholder ||
           (isLoadingOptions
-            ? 'Loading options...'
-            : `Select ${lookupList || 'option'}${multiSelect ? 's' : ''}`)
+            ? messages.loadingOptions
+            : lookupList
+              ? formatMessage(messages.selectFromList, { list: lookupList })
+              : multiSelect ? messages.selectOptions : messages.selectOption)
         }
         className={`${className || ''} ${errorMessage ? 'form-field-error' : ''}`.trim()}
         styles={{
@@ -269,16 +416,8 @@ export const FormLookup: React.FC<FormLookupProps> = ({
           ...(styles || {}),
         }}
       />
-      {errorMessage && (
-        <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, marginTop: 4 }}>
-          {errorMessage}
-        </div>
-      )}
-      {loadError && !touched && (
-        <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, marginTop: 4 }}>
-          Failed to load options: {loadError}
-        </div>
-      )}
+      <FieldDescription id={ids.description}>{description}</FieldDescription>
+      <FieldError id={ids.error} message={feedbackError} />
     </div>
   );
 };
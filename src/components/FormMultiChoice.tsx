@@ -1,6 +1,10 @@
 import React from 'react';
 import { Checkbox, Stack } from '@fluentui/react';
-import { useField, useFormContext } from '../core/hooks';
+import { useField, useFormSelector } from '../core/hooks';
+import { useCustomFieldRender } from '../core/hooks/useCustomFieldRender';
+import { FormDisplayField } from './FormDisplayField';
+import { FieldDescription, FieldError } from './FieldFeedback';
+import { joinIds } from '../utils/a11y';
 
 export interface FormMultiChoiceOption {
   key: string;
@@ -10,6 +14,7 @@ export interface FormMultiChoiceOption {
 export interface FormMultiChoiceProps {
   name: string;
   label?: string;
+  description?: string;
   options: FormMultiChoiceOption[];
   required?: boolean;
   disabled?: boolean;
@@ -35,20 +40,36 @@ export interface FormMultiChoiceProps {
 export const FormMultiChoice: React.FC<FormMultiChoiceProps> = ({
   name,
   label,
+  description,
   options,
-  required,
-  disabled,
+  required: requiredProp,
+  disabled: disabledProp,
 }) => {
-  const { value, error, touched, onChange, onBlur } = useField(name);
-  const formContext = useFormContext();
+  const { value, error, touched, visible, required: ruleRequired, disabled: ruleDisabled, readOnly, onChange, onBlur, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
   const selectedValues = Array.isArray(value) ? value : [];
 
+  if (!visible) {
+    return null;
+  }
+
+  const required = ruleRequired ?? requiredProp;
+  const disabled = disabledProp || ruleDisabled || readOnly;
+
   // Check if custom render is provided
-  const customRender = formContext.renderCustomField(name);
   if (customRender !== null) {
     return <>{customRender}</>;
   }
 
+  if (isDisplay) {
+    return (
+      <FormDisplayField label={label}>
+        {selectedValues.map((v) => options.find((option) => option.key === v)?.text ?? String(v)).join(', ')}
+      </FormDisplayField>
+    );
+  }
+
   const handleChange = (optionKey: string, checked: boolean) => {
     let newValue: string[];
     if (checked) {
@@ -59,30 +80,37 @@ export const FormMultiChoice: React.FC<FormMultiChoiceProps> = ({
     onChange(newValue);
   };
 
+  const errorMessage = touched && error ? error.message : undefined;
+
   return (
-    <div>
+    <div ref={ref}>
       {label && (
-        <div style={{ marginBottom: 8, fontWeight: 600 }}>
+        <div id={ids.label} style={{ marginBottom: 8, fontWeight: 600 }}>
           {label}
           {required && <span style={{ color: 'red' }}> *</span>}
         </div>
       )}
-      <Stack tokens={{ childrenGap: 8 }} onBlur={onBlur}>
-        {options.map((option) => (
+      <Stack
+        role="group"
+        aria-labelledby={label ? ids.label : undefined}
+        aria-describedby={joinIds(description && ids.description, errorMessage && ids.error)}
+        tokens={{ childrenGap: 8 }}
+        onBlur={onBlur}
+      >
+        {options.map((option, index) => (
           <Checkbox
             key={option.key}
+            id={index === 0 ? ids.input : undefined}
             label={option.text}
             checked={selectedValues.includes(option.key)}
             onChange={(_e, checked) => handleChange(option.key, checked || false)}
+            inputProps={{ 'aria-invalid': !!errorMessage }}
             disabled={disabled}
           />
         ))}
       </Stack>
-      {touched && error && (
-        <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, marginTop: 4 }}>
-          {error.message}
-        </div>
-      )}
+      <FieldDescription id={ids.description}>{description}</FieldDescription>
+      <FieldError id={ids.error} message={errorMessage} />
     </div>
   );
 };
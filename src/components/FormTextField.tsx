@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { TextField, ITextFieldProps } from '@fluentui/react';
-import { useField, useFormContext } from '../core/hooks';
+import { useField, useFormSelector } from '../core/hooks';
+import { useCustomFieldRender } from '../core/hooks/useCustomFieldRender';
+import { getFieldTransform } from '../utils/fieldTransforms';
+import { FormDisplayField } from './FormDisplayField';
 
 export interface FormTextFieldProps extends Omit<ITextFieldProps, 'value' | 'onChange' | 'onBlur' | 'errorMessage'> {
   name: string;
@@ -21,26 +24,54 @@ export interface FormTextFieldProps extends Omit<ITextFieldProps, 'value' | 'onC
  * ```
  */
 export const FormTextField: React.FC<FormTextFieldProps> = ({ name, ...props }) => {
-  const { value, error, touched, onChange, onBlur } = useField(name);
-  const formContext = useFormContext();
+  const { value, error, touched, visible, required, disabled, readOnly, onChange, onBlur, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const hasFormat = useFormSelector((form) => !!getFieldTransform(form.config.fieldTransforms, name)?.format);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
+  // A formatted field shows the raw typed text while focused, so formatting does not rewrite it mid-keystroke
+  const [editingText, setEditingText] = useState<string | null>(null);
+
+  if (!visible) {
+    return null;
+  }
 
   // Check if custom render is provided
-  const customRender = formContext.renderCustomField(name);
   if (customRender !== null) {
     return <>{customRender}</>;
   }
 
+  if (isDisplay) {
+    return (
+      <FormDisplayField label={props.label} className={props.className} multiline={props.multiline}>
+        {value === null || value === undefined ? '' : String(value)}
+      </FormDisplayField>
+    );
+  }
+
   // Default render
   const handleChange = (_e: React.FormEvent<HTMLInputElement | HTMLTextAreaElement>, newValue?: string) => {
+    if (hasFormat) {
+      setEditingText(newValue || '');
+    }
     onChange(newValue || '');
   };
 
+  const handleBlur = () => {
+    setEditingText(null);
+    onBlur();
+  };
+
   return (
     <TextField
       {...props}
-      value={value || ''}
+      id={props.id ?? ids.input}
+      required={required ?? props.required}
+      disabled={props.disabled || disabled}
+      readOnly={props.readOnly || readOnly}
+      value={editingText ?? (value || '')}
       onChange={handleChange}
-      onBlur={onBlur}
+      onBlur={handleBlur}
+      elementRef={ref}
       errorMessage={touched && error ? error.message : undefined}
     />
   );
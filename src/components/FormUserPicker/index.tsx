@@ -1,32 +1,33 @@
 import React, { useCallback } from 'react';
-import { NormalPeoplePicker, IPersonaProps, Label } from '@fluentui/react';
-import { useField, useFormContext } from '../../core/hooks';
+import { NormalPeoplePicker, IPersonaProps, Label, Persona, PersonaSize } from '@fluentui/react';
+import { useField, useFormSelector } from '../../core/hooks';
+import { useCustomFieldRender } from '../../core/hooks/useCustomFieldRender';
 import { FormUserPickerProps } from './types';
 import { useUserSearch, useUserResolution, useSelectedPersonas } from './hooks';
 import { convertToPersona } from './helpers';
+import { FormDisplayField } from '../FormDisplayField';
+import { FieldDescription, FieldError } from '../FieldFeedback';
+import { joinIds } from '../../utils/a11y';
 
 export const FormUserPicker: React.FC<FormUserPickerProps> = ({
   name,
   label,
+  description,
   multiSelect = false,
   allowGroups = false,
   searchUsers,
   placeholder,
-  required,
-  disabled,
+  required: requiredProp,
+  disabled: disabledProp,
   itemLimit,
   ...props
 }) => {
-  const { value, error, touched, onChange, onBlur } = useField(name);
-  const formContext = useFormContext();
-
-  const customRender = formContext.renderCustomField(name);
-  if (customRender !== null) {
-    return <>{customRender}</>;
-  }
-
-  const apiService = formContext.apiService;
-  const userServiceUrl = formContext.userServiceUrl || formContext.listUrl;
+  const { value, error, touched, visible, required: ruleRequired, disabled: ruleDisabled, readOnly, onChange, onBlur, ref, ids } = useField(name);
+  const customRender = useCustomFieldRender(name);
+  const apiService = useFormSelector((form) => form.apiService);
+  const userServiceUrl = useFormSelector((form) => form.userServiceUrl || form.listUrl);
+  const messages = useFormSelector((form) => form.messages);
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
 
   const { searchUsersFromApi, allUsers, allGroups, setUsers } = useUserSearch(
     apiService,
@@ -92,11 +93,37 @@ export const FormUserPicker: React.FC<FormUserPickerProps> = ({
   }, [multiSelect, value, onChange]);
 
   const errorMessage = touched && error ? error.message : undefined;
+  const required = ruleRequired ?? requiredProp;
+  const disabled = disabledProp || ruleDisabled || readOnly;
+
+  if (!visible) {
+    return null;
+  }
+
+  if (customRender !== null) {
+    return <>{customRender}</>;
+  }
+
+  if (isDisplay) {
+    return (
+      <FormDisplayField label={label}>
+        {selectedPersonas.length > 0 ? (
+          <ul className="spfx-form-handler-display-list">
+            {selectedPersonas.map((persona) => (
+              <li key={persona.id || persona.text}>
+                <Persona {...persona} size={PersonaSize.size24} />
+              </li>
+            ))}
+          </ul>
+        ) : null}
+      </FormDisplayField>
+    );
+  }
 
   return (
-    <div>
+    <div ref={ref}>
       {label && (
-        <Label required={required} disabled={disabled}>
+        <Label id={ids.label} htmlFor={ids.input} required={required} disabled={disabled}>
           {label}
         </Label>
       )}
@@ -112,9 +139,9 @@ export const FormUserPicker: React.FC<FormUserPickerProps> = ({
         }}
         getTextFromItem={(persona: IPersonaProps) => persona.text || ''}
         pickerSuggestionsProps={{
-          suggestionsHeaderText: 'Suggested People',
-          noResultsFoundText: 'No results found',
-          loadingText: 'Loading...',
+          suggestionsHeaderText: messages.suggestedPeople,
+          noResultsFoundText: messages.noResultsFound,
+          loadingText: messages.loading,
         }}
         selectedItems={selectedPersonas}
         onChange={onItemsChange}
@@ -123,10 +150,15 @@ export const FormUserPicker: React.FC<FormUserPickerProps> = ({
         disabled={disabled}
         itemLimit={multiSelect ? (itemLimit || undefined) : 1}
         inputProps={{
-          placeholder: placeholder || `Type a name or email${multiSelect ? '' : ''}`,
-          'aria-label': label || 'People picker',
+          id: ids.input,
+          placeholder: placeholder || messages.peoplePickerPlaceholder,
+          'aria-label': label ? undefined : messages.peoplePickerLabel,
+          'aria-labelledby': label ? ids.label : undefined,
+          'aria-describedby': joinIds(description && ids.description, errorMessage && ids.error),
+          'aria-invalid': !!errorMessage,
+          'aria-required': required,
         }}
-        removeButtonAriaLabel="Remove"
+        removeButtonAriaLabel={messages.remove}
         styles={errorMessage ? {
           ...((props as any)?.styles || {}),
           root: {
@@ -143,11 +175,8 @@ export const FormUserPicker: React.FC<FormUserPickerProps> = ({
         } : ((props as any)?.styles || {})}
         {...(props as any)}
       />
-      {errorMessage && (
-        <div style={{ color: 'rgb(164, 38, 44)', fontSize: 12, marginTop: 4 }}>
-          {errorMessage}
-        </div>
-      )}
+      <FieldDescription id={ids.description}>{description}</FieldDescription>
+      <FieldError id={ids.error} message={errorMessage} />
     </div>
   );
 };
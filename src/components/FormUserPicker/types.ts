@@ -9,6 +9,7 @@ export interface UserInfo {
 export interface FormUserPickerProps {
   name: string;
   label?: string;
+  description?: string;
   multiSelect?: boolean;
   allowGroups?: boolean;
   searchUsers?: (searchText: string) => Promise<UserInfo[]>;
@@ -0,0 +1,29 @@
+import React, { useContext, useEffect } from 'react';
+import { Text } from '@fluentui/react';
+import { FieldRegistrationScopeContext, useFieldRegistration } from '../../core/hooks/useFieldRegistration';
+import { FormWizardContext, StepIndexContext } from './context';
+import { FormStepProps } from './types';
+
+/**
+ * FormStep component - One page of a FormWizard
+ * Fields rendered inside the step register themselves, so Next validates exactly those fields
+ */
+export const FormStep: React.FC<FormStepProps> = ({ description, fields, children }) => {
+  const index = useContext(StepIndexContext);
+  const wizard = useContext(FormWizardContext);
+  const { registeredFieldsRef, registerField } = useFieldRegistration();
+  const registerStepFields = wizard?.registerStepFields;
+
+  useEffect(() => {
+    if (registerStepFields && index >= 0) {
+      registerStepFields(index, registeredFieldsRef, fields);
+    }
+  }, [registerStepFields, index, registeredFieldsRef, fields]);
+
+  return (
+    <FieldRegistrationScopeContext.Provider value={registerField}>
+      {description && <Text block className="spfx-form-handler-wizard-description">{description}</Text>}
+      {children}
+    </FieldRegistrationScopeContext.Provider>
+  );
+};
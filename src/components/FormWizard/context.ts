@@ -0,0 +1,21 @@
+import React, { createContext, useContext } from 'react';
+import { UseFormWizardReturn } from './types';
+
+export interface FormWizardContextValue extends UseFormWizardReturn {
+  registerStepFields: (index: number, fieldsRef: React.MutableRefObject<Set<string>>, extraFields?: string[]) => void;
+}
+
+export const FormWizardContext = createContext<FormWizardContextValue | null>(null);
+
+export const StepIndexContext = createContext<number>(-1);
+
+/**
+ * Hook to read and drive the surrounding FormWizard, e.g. for custom navigation buttons
+ */
+export const useFormWizard = (): UseFormWizardReturn => {
+  const context = useContext(FormWizardContext);
+  if (!context) {
+    throw new Error('useFormWizard must be used within a FormWizard');
+  }
+  return context;
+};
@@ -0,0 +1,217 @@
+import React, { useState, useCallback, useRef } from 'react';
+import { Stack, DefaultButton, PrimaryButton } from '@fluentui/react';
+import { useFormSelector, useFormStore } from '../../core/FormProvider';
+import { FormWizardContext, FormWizardContextValue, StepIndexContext } from './context';
+import { FormStepProps, FormWizardProps, FormWizardStep } from './types';
+
+interface StepFieldsEntry {
+  fieldsRef: React.MutableRefObject<Set<string>>;
+  extraFields?: string[];
+}
+
+/**
+ * FormWizard component - Splits a form into steps that are validated one at a time
+ * Every step stays mounted and only the current one is shown; the form is saved from the last step only
+ *
+ * @example
+ * ```tsx
+ * <FormWizard>
+ *   <FormStep title="Requester">
+ *     <FormTextField name="Title" label="Title" />
+ *     <FormUserPicker name="Manager" label="Manager" />
+ *   </FormStep>
+ *   <FormStep title="Details">
+ *     <FormTextField name="Description" label="Description" multiline />
+ *   </FormStep>
+ * </FormWizard>
+ * ```
+ */
+export const FormWizard: React.FC<FormWizardProps> = ({
+  children,
+  initialStep = 0,
+  showProgress = true,
+  showNavigation = true,
+  backText,
+  nextText,
+  submitText,
+  className,
+  onStepChange,
+}) => {
+  const store = useFormStore();
+  const isSubmitting = useFormSelector((form) => form.isSubmitting);
+  const messages = useFormSelector((form) => form.messages);
+  // Nothing is editable in display mode, so every step can be browsed freely and there is nothing to submit
+  const isDisplay = useFormSelector((form) => form.mode === 'display');
+  const stepElements = React.Children.toArray(children).filter(React.isValidElement) as React.ReactElement<FormStepProps>[];
+  const stepCount = stepElements.length;
+
+  const [currentStep, setCurrentStep] = useState(() => Math.min(Math.max(initialStep, 0), Math.max(stepCount - 1, 0)));
+  const [furthestStep, setFurthestStep] = useState(currentStep);
+  const [validSteps, setValidSteps] = useState<Record<number, boolean>>({});
+  const [isValidatingStep, setIsValidatingStep] = useState(false);
+  const stepFieldsRef = useRef<Record<number, StepFieldsEntry>>({});
+
+  const registerStepFields = useCallback(
+    (index: number, fieldsRef: React.MutableRefObject<Set<string>>, extraFields?: string[]) => {
+      stepFieldsRef.current[index] = { fieldsRef, extraFields };
+    },
+    []
+  );
+
+  const validateStep = useCallback(
+    async (index: number): Promise<boolean> => {
+      if (isDisplay) {
+        return true;
+      }
+      const entry = stepFieldsRef.current[index];
+      const fieldNames = entry ? [...Array.from(entry.fieldsRef.current), ...(entry.extraFields || [])] : [];
+
+      setIsValidatingStep(true);
+      try {
+        const isValid = await store.getState().validateFields(fieldNames);
+        setValidSteps((prev) => ({ ...prev, [index]: isValid }));
+        return isValid;
+      } finally {
+        setIsValidatingStep(false);
+      }
+    },
+    [store, isDisplay]
+  );
+
+  const changeStep = useCallback(
+    (index: number) => {
+      setCurrentStep(index);
+      setFurthestStep((prev) => Math.max(prev, index));
+      if (onStepChange) {
+        onStepChange(index);
+      }
+    },
+    [onStepChange]
+  );
+
+  const next = useCallback(async (): Promise<boolean> => {
+    if (currentStep >= stepCount - 1) {
+      return false;
+    }
+    const isValid = await validateStep(currentStep);
+    if (isValid) {
+      changeStep(currentStep + 1);
+    }
+    return isValid;
+  }, [currentStep, stepCount, validateStep, changeStep]);
+
+  const back = useCallback(() => {
+    if (currentStep > 0) {
+      changeStep(currentStep - 1);
+    }
+  }, [currentStep, changeStep]);
+
+  const goToStep = useCallback(
+    async (index: number): Promise<boolean> => {
+      if (index < 0 || index >= stepCount || (!isDisplay && index > furthestStep)) {
+        return false;
+      }
+      if (index <= currentStep) {
+        changeStep(index);
+        return true;
+      }
+      // Moving forward still needs the current step to pass
+      const isValid = await validateStep(currentStep);
+      if (isValid) {
+        changeStep(index);
+      }
+      return isValid;
+    },
+    [stepCount, furthestStep, currentStep, isDisplay, validateStep, changeStep]
+  );
+
+  const submit = useCallback(async () => {
+    if (isDisplay || currentStep !== stepCount - 1) {
+      return;
+    }
+    // Re-check earlier steps too, and show the first one with an error instead of failing on a hidden field
+    for (let index = 0; index < stepCount; index++) {
+      if (!(await validateStep(index))) {
+        if (index !== currentStep) {
+          changeStep(index);
+        }
+        return;
+      }
+    }
+    await store.getState().handleSubmit();
+  }, [currentStep, stepCount, isDisplay, validateStep, changeStep, store]);
+
+  const steps: FormWizardStep[] = stepElements.map((step, index) => ({
+    index,
+    title: step.props.title,
+    isValid: validSteps[index],
+    isVisited: index <= furthestStep,
+    canGoTo: isDisplay || index <= furthestStep,
+  }));
+
+  const wizard: FormWizardContextValue = {
+    currentStep,
+    stepCount,
+    steps,
+    isFirstStep: currentStep === 0,
+    isLastStep: currentStep === stepCount - 1,
+    progress: stepCount > 0 ? Math.round(((currentStep + 1) / stepCount) * 100) : 0,
+    isValidatingStep,
+    next,
+    back,
+    goToStep,
+    submit,
+    registerStepFields,
+  };
+
+  return (
+    <FormWizardContext.Provider value={wizard}>
+      <div className={`spfx-form-handler-wizard ${className || ''}`.trim()}>
+        {showProgress && (
+          <ol className="spfx-form-handler-wizard-steps">
+            {steps.map((step) => (
+              <li key={step.index}>
+                <button
+                  type="button"
+                  className={[
+                    'spfx-form-handler-wizard-step',
+                    step.index === currentStep ? 'is-current' : '',
+                    step.isValid === false ? 'is-invalid' : '',
+                    step.isValid ? 'is-valid' : '',
+                  ].filter(Boolean).join(' ')}
+                  disabled={!step.canGoTo || isValidatingStep}
+                  aria-current={step.index === currentStep ? 'step' : undefined}
+                  onClick={() => goToStep(step.index)}
+                >
+                  {step.index + 1}. {step.title}
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {/* Hidden steps stay mounted, so the item loads their fields and they keep what was typed */}
+        {stepElements.map((step, index) => (
+          <StepIndexContext.Provider key={index} value={index}>
+            <div className="spfx-form-handler-wizard-panel" hidden={index !== currentStep}>{step}</div>
+          </StepIndexContext.Provider>
+        ))}
+
+        {showNavigation && (
+          <Stack horizontal tokens={{ childrenGap: 8 }} className="spfx-form-handler-wizard-navigation">
+            {currentStep > 0 && <DefaultButton text={backText ?? messages.wizardBack} onClick={back} disabled={isSubmitting} />}
+            {currentStep < stepCount - 1 ? (
+              <PrimaryButton text={nextText ?? messages.wizardNext} onClick={next} disabled={isValidatingStep} />
+            ) : (
+              <PrimaryButton text={submitText ?? messages.wizardSubmit} onClick={submit} disabled={isDisplay || isValidatingStep || isSubmitting} />
+            )}
+          </Stack>
+        )}
+      </div>
+    </FormWizardContext.Provider>
+  );
+};
+
+export { FormStep } from './FormStep';
+export { useFormWizard } from './context';
+export type { FormWizardProps, FormStepProps, FormWizardStep, UseFormWizardReturn } from './types';
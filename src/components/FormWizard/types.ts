@@ -0,0 +1,42 @@
+import React from 'react';
+
+export interface FormStepProps {
+  title: string;
+  description?: string;
+  fields?: string[]; // Extra fields validated with this step, on top of the fields rendered inside it
+  children?: React.ReactNode;
+}
+
+export interface FormWizardStep {
+  index: number;
+  title: string;
+  isValid?: boolean; // Result of the last validation, undefined until the step is validated
+  isVisited: boolean;
+  canGoTo: boolean;
+}
+
+export interface UseFormWizardReturn {
+  currentStep: number;
+  stepCount: number;
+  steps: FormWizardStep[];
+  isFirstStep: boolean;
+  isLastStep: boolean;
+  progress: number; // 0-100
+  isValidatingStep: boolean;
+  next: () => Promise<boolean>; // Validates the current step first
+  back: () => void;
+  goToStep: (index: number) => Promise<boolean>; // Forward jumps only reach steps already unlocked with Next
+  submit: () => Promise<void>; // Only on the last step: re-checks every step, then calls handleSubmit
+}
+
+export interface FormWizardProps {
+  children: React.ReactNode;
+  initialStep?: number;
+  showProgress?: boolean;
+  showNavigation?: boolean;
+  backText?: string;
+  nextText?: string;
+  submitText?: string;
+  className?: string;
+  onStepChange?: (step: number) => void;
+}
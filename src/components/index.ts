@@ -8,4 +8,10 @@ export { FormUserPicker, type FormUserPickerProps, type UserInfo } from './FormU
 export { FormAttachmentPicker, type FormAttachmentPickerProps, type AttachmentInfo } from './FormAttachmentPicker';
 export { FormCustomField, type FormCustomFieldProps } from './FormCustomField';
 export { FormField, type FormFieldProps } from './FormField';
+export { FormFieldArray, type FormFieldArrayProps } from './FormFieldArray';
+export { FormDisplayField, type FormDisplayFieldProps } from './FormDisplayField';
 
+export { DraftRestoreBar, type DraftRestoreBarProps } from './DraftRestoreBar';
+export { FormErrorSummary, type FormErrorSummaryProps } from './FormErrorSummary';
+export { ConflictResolver, type ConflictResolverProps } from './ConflictResolver';
+export { FormWizard, FormStep, useFormWizard, type FormWizardProps, type FormStepProps, type FormWizardStep, type UseFormWizardReturn } from './FormWizard';
@@ -1,23 +1,44 @@
-import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode, useRef } from 'react';
-import { FormConfig, FormState, FormErrors, FormTouched, FormDirtyFields, UseFormReturn, CustomFieldRenderProps } from '../types';
-import { validateForm, validateField } from '../utils/validation';
+import React, { createContext, useContext, useState, useCallback, useEffect, useLayoutEffect, ReactNode, useRef, useMemo } from 'react';
+import { FormConfig, FormMode, NoInferValues, FormMessages, FormState, FormErrors, FormTouched, FormDirtyFields, UseFormReturn, UseDraftReturn, CustomFieldRenderProps, ListItemsQueryOptions, UpdateItemOptions, BatchOperation, SaveOperationResult, ApiResponse, ListInfo, CacheService, ListItemsSearchOptions, ListItemsPage } from '../types';
+import { validateForm, validateField, getEffectiveRules, getDependentFields, getValidationPaths, validateFormLevel, mergeErrors } from '../utils/validation';
+import { resolveFieldRuleState } from '../utils/fieldRules';
+import { resolveComputedFields } from '../utils/computedFields';
+import { formatFieldValue, normalizeFieldValue, parseFieldValue } from '../utils/fieldTransforms';
+import { resolveMessages } from '../locales';
 import { createSharePointApiService } from '../services/sharePointApiService/index';
 import { extractWebUrl } from '../utils/formHelpers';
-import { deepEqual } from '../utils/dirtyFields';
+import { deepEqual, computeDirtyFields, updateDirtyPaths } from '../utils/dirtyFields';
+import { getIn, setIn, reindexArrayKeys, isPathWithin } from '../utils/paths';
+import { formatMessage } from '../utils/messages';
+import { createFormIdPrefix } from '../utils/a11y';
 import { useFieldRegistration } from './hooks/useFieldRegistration';
+import { useFieldFocus } from './hooks/useFieldFocus';
+import { useLiveRegion } from './hooks/useLiveRegion';
 import { useLoadItemData } from './hooks/useLoadItemData';
 import { useFormSubmit } from './hooks/useFormSubmit';
+import { useConflictResolution } from './hooks/useConflictResolution';
+import { useAsyncValidation } from './hooks/useAsyncValidation';
+import { useFormHistory } from './hooks/useFormHistory';
+import { useDraftPersistence } from './hooks/useDraftPersistence';
+import { useNavigationGuard } from './hooks/useNavigationGuard';
+import { useStoreSelector } from './hooks/useStoreSelector';
+import { createFormStore, FormStore, shallowEqual } from './formStore';
+import { registerForm } from './formRegistry';
+import { withRequestPolicy } from '../services/requestPolicy';
+import { createCacheService } from '../services/cacheService';
 import '../styles/custom.css';
 
 export { registerSharePointWeb } from '../services/sharePointApiService/index';
 
-interface FormContextValue extends UseFormReturn {
+export interface FormContextValue extends UseFormReturn {
   config: FormConfig;
   apiService: {
     getItem: (listName: string, itemId: number, listUrl?: string, fieldNames?: string[]) => Promise<any>;
     addItem: (listName: string, data: any, listUrl?: string) => Promise<any>;
-    updateItem: (listName: string, itemId: number, data: any, listUrl?: string) => Promise<any>;
-    getListItems?: (listName: string, listUrl?: string) => Promise<any>;
+    updateItem: (listName: string, itemId: number, data: any, listUrl?: string, options?: UpdateItemOptions) => Promise<any>;
+    getListItems?: (listName: string, listUrl?: string, options?: ListItemsQueryOptions) => Promise<any>;
+    searchListItems?: (listName: string, listUrl?: string, options?: ListItemsSearchOptions) => Promise<ApiResponse<ListItemsPage>>;
+    deleteItem?: (listName: string, itemId: number, listUrl?: string) => Promise<any>;
     uploadFile?: (listName: string, itemId: number, file: File, fileName?: string, listUrl?: string) => Promise<any>;
     deleteFile?: (listName: string, itemId: number, fileName: string, listUrl?: string) => Promise<any>;
     getFieldMetadata?: (listName: string, fieldName: string, listUrl?: string) => Promise<any>;
@@ -25,81 +46,162 @@ interface FormContextValue extends UseFormReturn {
     searchUsers?: (searchText: string, listUrl?: string) => Promise<any>;
     getUserById?: (userId: number, listUrl?: string) => Promise<any>;
     getAttachmentFiles?: (listName: string, itemId: number, listUrl?: string) => Promise<any>;
+    getListInfo?: (listName: string, listUrl?: string) => Promise<ApiResponse<ListInfo>>;
+    batch?: (operations: BatchOperation[], listUrl?: string) => Promise<ApiResponse<SaveOperationResult[]>>;
   };
+  cache: CacheService; // Field metadata and lookup options shared between fields and forms
   renderCustomField: (name: string) => React.ReactNode | null;
   registerField: (fieldName: string) => void;
+  registerFieldElement: (name: string, element: HTMLElement) => () => void; // Returns the unregister function
+  idPrefix: string; // Base for the element ids of every field in this form
+  updateFieldArray: (name: string, update: (rows: any[]) => any[], remap: (index: number) => number | undefined) => void;
+  draft: UseDraftReturn;
+  locale: string;
+  messages: FormMessages;
+  hasUnsavedChanges: boolean;
+  confirmNavigation: () => Promise<boolean>;
 }
 
-const FormContext = createContext<FormContextValue | null>(null);
+// The context only carries the store, so it never changes; consumers subscribe to the slices they read
+const FormContext = createContext<FormStore<FormContextValue> | null>(null);
 
 let globalFormContext: FormContextValue | null = null;
 
+/**
+ * @deprecated Holds only the last mounted form. Set `config.formId` and use `getFormById` instead
+ */
 export const setGlobalFormContext = (context: FormContextValue | null) => {
   globalFormContext = context;
 };
 
+/**
+ * @deprecated With several FormProviders on a page this returns whichever mounted last.
+ * Set `config.formId` and use `getFormById` / `useFormById` instead
+ */
 export const getGlobalFormContext = (): FormContextValue | null => {
   return globalFormContext;
 };
 
-interface FormProviderProps {
+interface FormProviderProps<TValues extends FormState = FormState> {
   children: ReactNode;
-  config: FormConfig;
+  // Not inferred from the config: without `<FormProvider<MyValues>>` the form stays untyped
+  config: FormConfig<NoInferValues<TValues>>;
 }
 
-export const FormProvider: React.FC<FormProviderProps> = ({ children, config }) => {
-  const [values, setValues] = useState<FormState>(config.initialValues || {});
+export const FormProvider = <TValues extends FormState = FormState>({ children, config: typedConfig }: FormProviderProps<TValues>) => {
+  // TValues only types the public surface; internally values are plain path-keyed FormState
+  const config = typedConfig as unknown as FormConfig;
+
+  // Every value write goes through the computed fields, so they are never stale in state, validation or saves
+  const computedRef = useRef(config.computed);
+  computedRef.current = config.computed;
+  const withComputed = useCallback(
+    (nextValues: FormState) => resolveComputedFields(computedRef.current, nextValues).values,
+    []
+  );
+
+  const [values, setRawValues] = useState<FormState>(() => withComputed(config.initialValues || {}));
+  const setValues = useCallback(
+    (update: FormState | ((prev: FormState) => FormState)) => {
+      setRawValues((prev) => withComputed(typeof update === 'function' ? update(prev) : update));
+    },
+    [withComputed]
+  );
   const [errors, setErrors] = useState<FormErrors>({});
+  const [formLevelErrors, setFormLevelErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<FormTouched>({});
   const [dirtyFields, setDirtyFields] = useState<FormDirtyFields>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [loadedItemId, setLoadedItemId] = useState<number | undefined>(undefined);
   const [itemData, setItemData] = useState<any>(null);
   const [originalAttachments, setOriginalAttachments] = useState<any[]>([]);
-  const initialValuesRef = useRef<FormState>(config.initialValues || {});
-
-  const itemId = config.id !== undefined ? config.id : config.listConfig?.itemId;
+  const initialValuesRef = useRef<FormState>(values);
+  // Values as of the last render, plus array edits not rendered yet so several edits in one handler build on each other
+  const latestValuesRef = useRef<FormState>(values);
+  latestValuesRef.current = values;
+  const eTagRef = useRef<string | undefined>(undefined);
+
+  const configuredItemId = config.id !== undefined ? config.id : config.listConfig?.itemId;
+  const mode: FormMode = config.mode ?? (configuredItemId && configuredItemId > 0 ? 'edit' : 'new');
+  // A new form never loads or updates an item, even if the host passes one along
+  const itemId = mode === 'new' ? undefined : configuredItemId;
   const listName = config.listName || config.listConfig?.listName;
   const listUrl = config.listUrl || config.listConfig?.listUrl;
   const userServiceUrl = config.userServiceUrl || extractWebUrl(listUrl);
   const fieldMapping = config.fieldMapping || config.listConfig?.fieldMapping || {};
+  // Inline `messages` overrides are compared by content so they do not invalidate every validator on each render
+  const messageOverridesRef = useRef(config.messages);
+  if (!shallowEqual(messageOverridesRef.current, config.messages)) {
+    messageOverridesRef.current = config.messages;
+  }
+  const messageOverrides = messageOverridesRef.current;
+  const [idPrefix] = useState(() => createFormIdPrefix(config.formId));
+  const { locale, messages } = useMemo(() => resolveMessages(config.locale, messageOverrides), [config.locale, messageOverrides]);
 
   const { registeredFields, registeredFieldsRef, registerField } = useFieldRegistration();
+  const { canUndo, canRedo, recordHistory, takeUndo, takeRedo, clearHistory } = useFormHistory({ limit: config.historyLimit });
 
   const autoSave = config.autoSave !== false && listName ? true : false;
 
+  // Created once per form; the storage and TTLs are read on mount
+  const [cache] = useState(() => createCacheService(config.cache));
+
   const customApiService = config.apiService || config.listConfig?.apiService;
-  const autoApiService = listUrl && !customApiService
-    ? createSharePointApiService(extractWebUrl(listUrl) || listUrl, () => Array.from(registeredFieldsRef.current))
-    : null;
+  const autoApiService = useMemo(
+    () => listUrl && !customApiService
+      ? createSharePointApiService(extractWebUrl(listUrl) || listUrl, () => Array.from(registeredFieldsRef.current), cache)
+      : null,
+    [listUrl, customApiService, registeredFieldsRef, cache]
+  );
   const finalApiService = customApiService || autoApiService;
 
   if (!finalApiService) {
     throw new Error('API Service is required. Please provide either apiService in config or listUrl to auto-create SharePoint API service.');
   }
 
-  const apiService: FormContextValue['apiService'] = {
-    getItem: (finalApiService as any).getItem as (listName: string, itemId: number, listUrl?: string) => Promise<any>,
-    addItem: ((finalApiService as any).addItem || (() => {
-      throw new Error('addItem method is not available in API service');
-    })) as (listName: string, data: any, listUrl?: string) => Promise<any>,
-    updateItem: ((finalApiService as any).updateItem || (() => {
-      throw new Error('updateItem method is not available in API service');
-    })) as (listName: string, itemId: number, data: any, listUrl?: string) => Promise<any>,
-    getListItems: (finalApiService as any).getListItems as ((listName: string, listUrl?: string) => Promise<any>) | undefined,
-    uploadFile: (finalApiService as any).uploadFile as ((listName: string, itemId: number, file: File, fileName?: string, listUrl?: string) => Promise<any>) | undefined,
-    deleteFile: (finalApiService as any).deleteFile as ((listName: string, itemId: number, fileName: string, listUrl?: string) => Promise<any>) | undefined,
-    getFieldMetadata: (finalApiService as any).getFieldMetadata as ((listName: string, fieldName: string, listUrl?: string) => Promise<any>) | undefined,
-    getListFields: (finalApiService as any).getListFields as ((listName: string, listUrl?: string) => Promise<any>) | undefined,
-    searchUsers: (finalApiService as any).searchUsers as ((searchText: string, listUrl?: string) => Promise<any>) | undefined,
-    getUserById: (finalApiService as any).getUserById as ((userId: number, listUrl?: string) => Promise<any>) | undefined,
-    getAttachmentFiles: (finalApiService as any).getAttachmentFiles as ((listName: string, itemId: number, listUrl?: string) => Promise<any>) | undefined,
-  };
+  // Read on every request, so an inline policy object does not recreate the service each render
+  const retryPolicyRef = useRef(config.retryPolicy);
+  retryPolicyRef.current = config.retryPolicy;
+
+  const apiService = useMemo((): FormContextValue['apiService'] => {
+    const service: any = withRequestPolicy(finalApiService as any, () => retryPolicyRef.current);
+    return {
+      getItem: service.getItem as (listName: string, itemId: number, listUrl?: string) => Promise<any>,
+      addItem: (service.addItem || (() => {
+        throw new Error('addItem method is not available in API service');
+      })) as (listName: string, data: any, listUrl?: string) => Promise<any>,
+      updateItem: (service.updateItem || (() => {
+        throw new Error('updateItem method is not available in API service');
+      })) as (listName: string, itemId: number, data: any, listUrl?: string, options?: UpdateItemOptions) => Promise<any>,
+      getListItems: service.getListItems as ((listName: string, listUrl?: string, options?: ListItemsQueryOptions) => Promise<any>) | undefined,
+      searchListItems: service.searchListItems as ((listName: string, listUrl?: string, options?: ListItemsSearchOptions) => Promise<ApiResponse<ListItemsPage>>) | undefined,
+      deleteItem: service.deleteItem as ((listName: string, itemId: number, listUrl?: string) => Promise<any>) | undefined,
+      uploadFile: service.uploadFile as ((listName: string, itemId: number, file: File, fileName?: string, listUrl?: string) => Promise<any>) | undefined,
+      deleteFile: service.deleteFile as ((listName: string, itemId: number, fileName: string, listUrl?: string) => Promise<any>) | undefined,
+      getFieldMetadata: service.getFieldMetadata as ((listName: string, fieldName: string, listUrl?: string) => Promise<any>) | undefined,
+      getListFields: service.getListFields as ((listName: string, listUrl?: string) => Promise<any>) | undefined,
+      searchUsers: service.searchUsers as ((searchText: string, listUrl?: string) => Promise<any>) | undefined,
+      getUserById: service.getUserById as ((userId: number, listUrl?: string) => Promise<any>) | undefined,
+      getAttachmentFiles: service.getAttachmentFiles as ((listName: string, itemId: number, listUrl?: string) => Promise<any>) | undefined,
+      getListInfo: service.getListInfo as ((listName: string, listUrl?: string) => Promise<ApiResponse<ListInfo>>) | undefined,
+      batch: service.batch as ((operations: BatchOperation[], listUrl?: string) => Promise<ApiResponse<SaveOperationResult[]>>) | undefined,
+    };
+  }, [finalApiService]);
 
   const setInitialValuesRef = useCallback((newValues: FormState) => {
-    initialValuesRef.current = { ...newValues };
+    initialValuesRef.current = withComputed({ ...newValues });
     setDirtyFields({});
-  }, []);
+    clearHistory();
+  }, [withComputed, clearHistory]);
+
+  // Records which item finished loading, so drafts are only compared with loaded values
+  const setItemLoading = useCallback((loading: boolean) => {
+    setIsLoading(loading);
+    if (!loading) {
+      setLoadedItemId(itemId);
+    }
+  }, [itemId]);
 
   const loadItemData = useLoadItemData({
     itemId,
@@ -108,25 +210,30 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
     fieldMapping,
     apiService,
     registeredFields,
+    childCollections: config.childCollections,
     config: {
       initialValues: config.initialValues,
+      fieldTransforms: config.fieldTransforms,
       onItemLoaded: config.onItemLoaded,
       onLoadError: config.onLoadError,
     },
-    setIsLoading,
+    setIsLoading: setItemLoading,
     setItemData,
     setOriginalAttachments,
     setValues,
     setInitialValuesRef,
+    eTagRef,
   });
 
   useEffect(() => {
     if (config.enableReinitialize && config.initialValues) {
       setValues(config.initialValues);
       setErrors({});
+      setFormLevelErrors({});
       setTouched({});
-      initialValuesRef.current = { ...config.initialValues };
+      initialValuesRef.current = withComputed({ ...config.initialValues });
       setDirtyFields({});
+      clearHistory();
     }
   }, [config.initialValues, config.enableReinitialize]);
 
@@ -134,16 +241,16 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
     if (!config.initialValues || Object.keys(config.initialValues).length === 0) {
       initialValuesRef.current = { ...values };
     } else {
-      initialValuesRef.current = { ...config.initialValues };
+      initialValuesRef.current = withComputed({ ...config.initialValues });
     }
   }, []);
 
   const setValue = useCallback((fieldName: string, value: any) => {
-    setValues((prev) => ({ ...prev, [fieldName]: value }));
-  }, []);
+    setValues((prev) => setIn(prev, fieldName, value));
+  }, [setValues]);
 
   const getValue = useCallback((fieldName: string) => {
-    return values[fieldName];
+    return getIn(values, fieldName);
   }, [values]);
 
   const setError = useCallback((name: string, error: any) => {
@@ -156,72 +263,165 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
 
   const setAllValues = useCallback((newValues: FormState) => {
     setValues(newValues);
-    initialValuesRef.current = { ...newValues };
+    initialValuesRef.current = withComputed({ ...newValues });
     setDirtyFields({});
-  }, []);
+  }, [setValues, withComputed]);
+
+  const {
+    validatingFields,
+    isValidating,
+    runAsyncValidation,
+    cancelAsyncValidation,
+    cancelAllAsyncValidation,
+    validateAsync,
+  } = useAsyncValidation({
+    values,
+    validationSchema: config.validationSchema,
+    fieldRules: config.rules,
+    messages,
+    setError,
+  });
 
   const handleChange = useCallback(
     (name: string, value: any) => {
+      if (!deepEqual(getIn(values, name), value)) {
+        recordHistory(values, name);
+      }
       setValue(name, value);
       setTouchedField(name, true);
 
-      const error = validateField(value, config.validationSchema?.[name]);
+      const { values: nextValues, changedFields: changedComputed } = resolveComputedFields(config.computed, setIn(values, name, value));
+      const rules = getEffectiveRules(nextValues, name, config.validationSchema, config.rules);
+      const error = validateField(value, rules, nextValues, { name, messages });
       setError(name, error);
 
-      setDirtyFields((prev) => {
-        const initialValue = initialValuesRef.current[name];
-        const isDirty = !deepEqual(value, initialValue);
-        if (isDirty) {
-          return { ...prev, [name]: true };
-        } else {
-          const newDirty = { ...prev };
-          delete newDirty[name];
-          return newDirty;
+      if (!error && rules?.asyncValidate) {
+        runAsyncValidation(name, value, nextValues, rules);
+      } else {
+        cancelAsyncValidation(name);
+      }
+
+      // Cross-field rules: re-check touched fields that depend on this one, and computed fields it changed
+      const dependents = new Set(changedComputed);
+      [name, ...changedComputed].forEach((changed) => {
+        getDependentFields(nextValues, changed, config.validationSchema, config.rules).forEach((dependent) => dependents.add(dependent));
+      });
+      dependents.forEach((dependent) => {
+        if (dependent !== name && touched[dependent]) {
+          const dependentRules = getEffectiveRules(nextValues, dependent, config.validationSchema, config.rules);
+          setError(dependent, validateField(getIn(nextValues, dependent), dependentRules, nextValues, { name: dependent, messages }));
         }
       });
+
+      if (config.validate) {
+        setFormLevelErrors(validateFormLevel(nextValues, config.validate));
+      }
+
+      setDirtyFields((prev) => updateDirtyPaths(prev, [name, ...changedComputed], nextValues, initialValuesRef.current));
     },
-    [config.validationSchema, setValue, setError, setTouchedField]
+    [values, touched, config.validationSchema, config.rules, config.validate, config.computed, messages, setValue, setError, setTouchedField, runAsyncValidation, cancelAsyncValidation, recordHistory]
   );
 
   const handleBlur = useCallback(
     (name: string) => {
+      // Normalizing waits for blur so e.g. trimming does not fight the user while typing
+      const currentValue = getIn(values, name);
+      const normalized = normalizeFieldValue(config.fieldTransforms, name, currentValue);
+      if (!deepEqual(normalized, currentValue)) {
+        handleChange(name, normalized);
+        return;
+      }
+
       setTouchedField(name, true);
 
       if (config.validateOnBlur !== false) {
-        const error = validateField(values[name], config.validationSchema?.[name]);
+        const error = validateField(getIn(values, name), getEffectiveRules(values, name, config.validationSchema, config.rules), values, { name, messages });
         setError(name, error);
       }
     },
-    [config.validateOnBlur, config.validationSchema, values, setTouchedField, setError]
+    [config.validateOnBlur, config.validationSchema, config.rules, config.fieldTransforms, messages, values, handleChange, setTouchedField, setError]
   );
 
   const validate = useCallback((): boolean => {
-    const newErrors = validateForm(values, config.validationSchema);
+    const newErrors = validateForm(values, config.validationSchema, config.rules, messages);
+    const newFormLevelErrors = validateFormLevel(values, config.validate);
     setErrors(newErrors);
-    return Object.values(newErrors).every((error) => error === null);
-  }, [values, config.validationSchema]);
+    setFormLevelErrors(newFormLevelErrors);
+    return Object.values(newErrors).every((error) => error === null) && Object.keys(newFormLevelErrors).length === 0;
+  }, [values, config.validationSchema, config.rules, config.validate, messages]);
 
   const validateFieldByName = useCallback(
     (name: string) => {
-      const error = validateField(values[name], config.validationSchema?.[name]);
+      const error = validateField(getIn(values, name), getEffectiveRules(values, name, config.validationSchema, config.rules), values, { name, messages });
       setError(name, error);
       return error;
     },
-    [values, config.validationSchema, setError]
+    [values, config.validationSchema, config.rules, messages, setError]
+  );
+
+  // Validate a group of fields (e.g. one wizard step), including their nested paths and async rules
+  const validateFields = useCallback(
+    async (names: string[]): Promise<boolean> => {
+      const paths = getValidationPaths(values, config.validationSchema, config.rules).filter((path) =>
+        names.some((name) => isPathWithin(path, name))
+      );
+
+      const results = paths.map((path) => {
+        const rules = getEffectiveRules(values, path, config.validationSchema, config.rules);
+        const value = getIn(values, path);
+        return { path, rules, value, error: validateField(value, rules, values, { name: path, messages }) };
+      });
+
+      setTouched((prev) => {
+        const next = { ...prev };
+        paths.forEach((path) => {
+          next[path] = true;
+        });
+        return next;
+      });
+      setErrors((prev) => {
+        const next = { ...prev };
+        results.forEach(({ path, error }) => {
+          next[path] = error;
+        });
+        return next;
+      });
+
+      const newFormLevelErrors = validateFormLevel(values, config.validate);
+      setFormLevelErrors(newFormLevelErrors);
+      const hasFormLevelError = Object.keys(newFormLevelErrors).some((key) => names.some((name) => isPathWithin(key, name)));
+
+      const asyncErrors = await Promise.all(
+        results
+          .filter(({ rules, error }) => !error && rules?.asyncValidate)
+          .map(({ path, rules, value }) => runAsyncValidation(path, value, values, rules!, true))
+      );
+
+      return results.every(({ error }) => !error) && !hasFormLevelError && asyncErrors.every((error) => error === null);
+    },
+    [values, config.validationSchema, config.rules, config.validate, messages, runAsyncValidation]
+  );
+
+  const getFieldRuleState = useCallback(
+    (name: string) => resolveFieldRuleState(config.rules, values, name),
+    [config.rules, values]
   );
 
   const reset = useCallback(() => {
+    cancelAllAsyncValidation();
     const resetValues = config.initialValues || {};
     setValues(resetValues);
     setErrors({});
+    setFormLevelErrors({});
     setTouched({});
-    initialValuesRef.current = { ...resetValues };
+    initialValuesRef.current = withComputed({ ...resetValues });
     setDirtyFields({});
-  }, [config.initialValues]);
+    clearHistory();
+  }, [config.initialValues, setValues, withComputed, cancelAllAsyncValidation, clearHistory]);
 
   const resetField = useCallback(
     (name: string) => {
-      const defaultValue = initialValuesRef.current[name] ?? config.initialValues?.[name];
+      const defaultValue = getIn(initialValuesRef.current, name) ?? getIn(config.initialValues, name);
       setValue(name, defaultValue);
       setError(name, null);
       setTouchedField(name, false);
@@ -234,26 +434,158 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
     [config.initialValues, setValue, setError, setTouchedField]
   );
 
-  const formHelpers = {
+
+  const updateFieldArray = useCallback(
+    (name: string, update: (rows: any[]) => any[], remap: (index: number) => number | undefined) => {
+      const toRows = (rows: any) => update(Array.isArray(rows) ? rows : []);
+      const prevValues = latestValuesRef.current;
+      const { values: nextValues, changedFields: changedComputed } = resolveComputedFields(
+        config.computed,
+        setIn(prevValues, name, toRows(getIn(prevValues, name)))
+      );
+      latestValuesRef.current = nextValues;
+
+      recordHistory(prevValues);
+      setValues((prev) => setIn(prev, name, toRows(getIn(prev, name))));
+      setErrors((prev) => reindexArrayKeys(prev, name, remap));
+      setTouched((prev) => reindexArrayKeys(prev, name, remap));
+      setDirtyFields((prev) =>
+        updateDirtyPaths(reindexArrayKeys(prev, name, remap), [name, ...changedComputed], nextValues, initialValuesRef.current)
+      );
+    },
+    [config.computed, setValues, recordHistory]
+  );
+
+  const setValuesWithHistory = useCallback(
+    (newValues: FormState) => {
+      recordHistory(values);
+      setAllValues(newValues);
+    },
+    [values, recordHistory, setAllValues]
+  );
+
+  // Undo/redo swap whole value snapshots, then rebuild dirty state and errors for the restored values
+  const restoreValues = useCallback(
+    (snapshot: FormState) => {
+      const restored = withComputed(snapshot);
+      cancelAllAsyncValidation();
+      setValues(restored);
+      setDirtyFields((prev) => computeDirtyFields(restored, initialValuesRef.current, Object.keys(prev)));
+      setErrors((prev) => {
+        const next = { ...prev };
+        Object.keys(touched).filter((path) => touched[path]).forEach((path) => {
+          next[path] = validateField(getIn(restored, path), getEffectiveRules(restored, path, config.validationSchema, config.rules), restored, { name: path, messages });
+        });
+        return next;
+      });
+      setFormLevelErrors(validateFormLevel(restored, config.validate));
+    },
+    [touched, config.validationSchema, config.rules, config.validate, messages, setValues, withComputed, cancelAllAsyncValidation]
+  );
+
+  const undo = useCallback(() => {
+    const previous = takeUndo(values);
+    if (previous) {
+      restoreValues(previous);
+    }
+  }, [values, takeUndo, restoreValues]);
+
+  const redo = useCallback(() => {
+    const next = takeRedo(values);
+    if (next) {
+      restoreValues(next);
+    }
+  }, [values, takeRedo, restoreValues]);
+
+  const applyDraftValues = useCallback(
+    (draftValues: FormState) => {
+      recordHistory(values);
+      restoreValues(draftValues);
+    },
+    [values, recordHistory, restoreValues]
+  );
+
+  // Values from the last successful submit; a custom onSubmit leaves dirtyFields as they are
+  const [submittedValues, setSubmittedValues] = useState<FormState | null>(null);
+  const hasUnsavedChanges = Object.keys(dirtyFields).length > 0 && !(submittedValues && deepEqual(values, submittedValues));
+
+  const guardOptions = typeof config.unsavedChangesGuard === 'object' ? config.unsavedChangesGuard : {};
+  const confirmNavigation = useNavigationGuard({
+    ...guardOptions,
+    message: guardOptions.message ?? messages.unsavedChanges,
+    enabled: !!config.unsavedChangesGuard && guardOptions.enabled !== false,
+    isDirty: hasUnsavedChanges,
+  });
+
+  const { draftState, clearDraft } = useDraftPersistence({
+    draft: mode === 'display' ? false : config.draft,
+    listName,
+    itemId,
+    values,
+    dirtyFields,
+    isLoading,
+    isItemLoaded: !itemId || itemId <= 0 || !listName || loadedItemId === itemId,
+    isSubmitting,
+    applyDraftValues,
+  });
+
+  const formHelpers = useMemo(() => ({
     setValue,
     getValue,
     setError,
     setTouched: setTouchedField,
-    setValues: setAllValues,
+    setValues: setValuesWithHistory,
     handleChange,
     handleBlur,
     reset,
     resetField,
     validate,
     validateField: validateFieldByName,
-  };
+    validateFields,
+    getFieldRuleState,
+    undo,
+    redo,
+  }), [setValue, getValue, setError, setTouchedField, setValuesWithHistory, handleChange, handleBlur, reset, resetField, validate, validateFieldByName, validateFields, getFieldRuleState, undo, redo]);
+
+  const { announcement, announce } = useLiveRegion();
+
+  const handleSubmitted = useCallback(() => {
+    setSubmittedValues(values);
+    clearDraft();
+    announce(messages.saveSucceeded);
+  }, [values, clearDraft, announce, messages]);
+
+  const handleSubmitError = useCallback((error: string) => {
+    announce(formatMessage(messages.saveFailed, { error }));
+  }, [announce, messages]);
+
+  // Form-level errors (config.validate) are kept apart so field validation never clears them
+  const mergedErrors = useMemo(() => mergeErrors(errors, formLevelErrors), [errors, formLevelErrors]);
+  const { registerFieldElement, focusField, focusFirstError } = useFieldFocus(mergedErrors);
+
+  // Errors from a failed submit only render on the next commit, so they are announced and focused from an effect
+  const [invalidSubmitCount, setInvalidSubmitCount] = useState(0);
+  const handleInvalid = useCallback(() => setInvalidSubmitCount((count) => count + 1), []);
+  useEffect(() => {
+    if (invalidSubmitCount === 0) {
+      return;
+    }
+    const errorCount = Object.keys(mergedErrors).filter((name) => mergedErrors[name]).length;
+    if (errorCount > 0) {
+      announce(formatMessage(messages.formHasErrors, { count: errorCount }));
+    }
+    if (config.focusOnError !== false) {
+      focusFirstError();
+    }
+  }, [invalidSubmitCount]);
 
-  const handleSubmit = useFormSubmit({
+  const { handleSubmit, submitState, clearConflict } = useFormSubmit({
     values,
-    errors,
+    errors: mergedErrors,
     touched,
     dirtyFields,
     itemId,
+    mode,
     listName,
     listUrl,
     fieldMapping,
@@ -261,27 +593,47 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
     apiService,
     itemData,
     originalAttachments,
+    initialValuesRef,
+    latestValuesRef,
+    eTagRef,
     config,
     setIsSubmitting,
     setErrors,
     setTouched,
     setDirtyFields,
     setItemData,
-    setAllValues,
+    setValues,
     validate,
+    validateAsync,
     loadItemData,
     formHelpers,
+    messages,
+    onSubmitted: handleSubmitted,
+    onInvalid: handleInvalid,
+    onSubmitError: handleSubmitError,
+  });
+
+  const { resolveConflict, cancelConflict } = useConflictResolution({
+    conflict: submitState.conflict,
+    values,
+    dirtyFields,
+    initialValuesRef,
+    eTagRef,
+    setValues,
+    setDirtyFields,
+    clearConflict,
+    handleSubmit,
   });
 
-  const isValid = Object.keys(errors).length === 0 || Object.values(errors).every((error) => error === null);
+  const isValid = Object.keys(mergedErrors).length === 0 || Object.values(mergedErrors).every((error) => error === null);
 
   const renderCustomField = useCallback((name: string): React.ReactNode | null => {
     if (!config.onRenderField) {
       return null;
     }
 
-    const fieldValue = values[name];
-    const fieldError = errors[name] || null;
+    const fieldValue = formatFieldValue(config.fieldTransforms, name, getIn(values, name));
+    const fieldError = mergedErrors[name] || null;
     const fieldTouched = touched[name] || false;
 
     const customProps: CustomFieldRenderProps = {
@@ -289,43 +641,59 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
       value: fieldValue,
       error: fieldError,
       touched: fieldTouched,
-      onChange: (value: any) => handleChange(name, value),
+      onChange: (value: any) => handleChange(name, parseFieldValue(config.fieldTransforms, name, value)),
       onBlur: () => handleBlur(name),
       setValue,
       getValue,
         form: {
         values,
-        errors,
+        errors: mergedErrors,
         touched,
         dirtyFields,
         isSubmitting,
+        ...submitState,
         isLoading,
         isValid,
+        isValidating,
+        validatingFields,
+        canUndo,
+        canRedo,
         itemData,
         itemId: itemId && itemId > 0 ? itemId : undefined,
+        mode,
         listName,
         listUrl,
         userServiceUrl,
         ...formHelpers,
+        focusField,
+        announce,
         handleSubmit,
         reloadItemData: loadItemData,
+        resolveConflict,
+        cancelConflict,
         registerField,
       },
     };
 
     return config.onRenderField(customProps);
-  }, [config.onRenderField, values, errors, touched, handleChange, handleBlur, setValue, getValue, isSubmitting, isLoading, isValid, itemData, itemId, listName, listUrl, userServiceUrl, formHelpers, handleSubmit, loadItemData, registerField]);
+  }, [config.onRenderField, config.fieldTransforms, values, mergedErrors, touched, handleChange, handleBlur, setValue, getValue, isSubmitting, submitState, isLoading, isValid, isValidating, validatingFields, canUndo, canRedo, itemData, itemId, mode, listName, listUrl, userServiceUrl, formHelpers, focusField, announce, handleSubmit, loadItemData, resolveConflict, cancelConflict, registerField]);
 
-  const contextValue: FormContextValue = {
+  const contextValue = useMemo((): FormContextValue => ({
     values,
-    errors,
+    errors: mergedErrors,
     touched,
     dirtyFields,
     isSubmitting,
+    ...submitState,
     isLoading,
     isValid,
+    isValidating,
+    validatingFields,
+    canUndo,
+    canRedo,
     itemData,
     itemId: itemId && itemId > 0 ? itemId : undefined,
+    mode,
     listName,
     listUrl,
     userServiceUrl,
@@ -333,7 +701,7 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
     getValue,
     setError,
     setTouched: setTouchedField,
-    setValues: setAllValues,
+    setValues: setValuesWithHistory,
     handleChange,
     handleBlur,
     handleSubmit,
@@ -341,29 +709,102 @@ export const FormProvider: React.FC<FormProviderProps> = ({ children, config })
     resetField,
     validate,
     validateField: validateFieldByName,
+    validateFields,
+    getFieldRuleState,
+    focusField,
+    announce,
+    undo,
+    redo,
     reloadItemData: loadItemData,
+    resolveConflict,
+    cancelConflict,
     config,
     apiService,
+    cache,
     renderCustomField,
     registerField,
-  };
+    registerFieldElement,
+    idPrefix,
+    updateFieldArray,
+    draft: draftState,
+    locale,
+    messages,
+    hasUnsavedChanges,
+    confirmNavigation,
+  }), [values, mergedErrors, touched, dirtyFields, isSubmitting, submitState, isLoading, isValid, isValidating, validatingFields, canUndo, canRedo, itemData, itemId, mode, listName, listUrl, userServiceUrl, formHelpers, focusField, announce, handleSubmit, loadItemData, resolveConflict, cancelConflict, config, apiService, cache, renderCustomField, registerField, registerFieldElement, idPrefix, updateFieldArray, draftState, locale, messages, hasUnsavedChanges, confirmNavigation]);
+
+  const storeRef = useRef<FormStore<FormContextValue> | null>(null);
+  if (!storeRef.current) {
+    storeRef.current = createFormStore(contextValue);
+  }
+  const store = storeRef.current;
+
+  // Publish before paint so subscribed fields never show a stale value
+  useLayoutEffect(() => {
+    store.setState(contextValue);
+  }, [store, contextValue]);
 
   useEffect(() => {
-    setGlobalFormContext(contextValue);
+    setGlobalFormContext(store.getState());
+    const unsubscribe = store.subscribe(() => setGlobalFormContext(store.getState()));
     return () => {
-      setGlobalFormContext(null);
+      unsubscribe();
+      // Leave the global alone if another form has taken it over since
+      if (globalFormContext === store.getState()) {
+        setGlobalFormContext(null);
+      }
     };
-  }, [contextValue]);
+  }, [store]);
 
-  return <FormContext.Provider value={contextValue}>{children}</FormContext.Provider>;
+  useEffect(() => {
+    if (!config.formId) {
+      return;
+    }
+    return registerForm(config.formId, store);
+  }, [config.formId, store]);
+
+  return (
+    <FormContext.Provider value={store}>
+      {children}
+      <div className="spfx-form-handler-live-region" role="status" aria-live="polite" aria-atomic="true">
+        {announcement}
+      </div>
+    </FormContext.Provider>
+  );
 };
 
-export const useFormContext = (): FormContextValue => {
-  const context = useContext(FormContext);
-  if (!context) {
+export const useFormStore = (): FormStore<FormContextValue> => {
+  const store = useContext(FormContext);
+  if (!store) {
     throw new Error('useFormContext must be used within a FormProvider');
   }
-  return context;
+  return store;
+};
+
+const selectForm = (form: FormContextValue) => form;
+
+/**
+ * Full form context. Re-renders on every form change; prefer useFormSelector or useField in large forms
+ */
+export const useFormContext = (): FormContextValue => {
+  return useStoreSelector(useFormStore(), selectForm);
+};
+
+/**
+ * Subscribe to a slice of the form. The component re-renders only when the selected value changes
+ * (compared with Object.is, or `isEqual` when given)
+ *
+ * @example
+ * ```tsx
+ * const budget = useFormSelector((form) => form.values.Budget);
+ * const canSave = useFormSelector((form) => form.isValid && !form.isSubmitting);
+ * ```
+ */
+export const useFormSelector = <TSelected,>(
+  selector: (form: FormContextValue) => TSelected,
+  isEqual?: (a: TSelected, b: TSelected) => boolean
+): TSelected => {
+  return useStoreSelector(useFormStore(), selector, isEqual);
 };
 
 export type { UseFormReturn };
@@ -0,0 +1,78 @@
+import type { FormContextValue } from './FormProvider';
+import { FormStore, ReadableStore } from './formStore';
+
+export type FormRegistryListener = (form: FormContextValue | null) => void;
+
+const forms = new Map<string, FormStore<FormContextValue>>();
+const listeners = new Map<string, Set<FormRegistryListener>>();
+
+const notify = (formId: string) => {
+  const form = getFormById(formId);
+  listeners.get(formId)?.forEach((listener) => listener(form));
+};
+
+/**
+ * Make a form reachable by id. Called by FormProvider when `config.formId` is set; returns the unregister function
+ */
+export const registerForm = (formId: string, store: FormStore<FormContextValue>): (() => void) => {
+  if (forms.has(formId) && forms.get(formId) !== store) {
+    console.warn(`A form with formId "${formId}" is already mounted; the newest one replaces it in the registry.`);
+  }
+  forms.set(formId, store);
+  const unsubscribeStore = store.subscribe(() => notify(formId));
+  notify(formId);
+
+  return () => {
+    unsubscribeStore();
+    // A newer form with the same id may have taken over; leave it registered
+    if (forms.get(formId) === store) {
+      forms.delete(formId);
+      notify(formId);
+    }
+  };
+};
+
+/**
+ * Latest state and methods of a mounted form, or null when no FormProvider with that `formId` is mounted.
+ * Works outside React, e.g. from an SPFx command set
+ *
+ * @example
+ * ```ts
+ * const form = getFormById('project');
+ * if (form) {
+ *   form.setValue('Status', 'Approved');
+ *   await form.handleSubmit();
+ * }
+ * ```
+ */
+export const getFormById = (formId: string): FormContextValue | null => {
+  return forms.get(formId)?.getState() ?? null;
+};
+
+export const getRegisteredFormIds = (): string[] => {
+  return Array.from(forms.keys());
+};
+
+/**
+ * Call `listener` whenever the form changes, mounts or unmounts (with null). Safe to call before the form mounts
+ */
+export const subscribeToForm = (formId: string, listener: FormRegistryListener): (() => void) => {
+  if (!listeners.has(formId)) {
+    listeners.set(formId, new Set());
+  }
+  const formListeners = listeners.get(formId)!;
+  formListeners.add(listener);
+
+  return () => {
+    formListeners.delete(listener);
+    if (formListeners.size === 0) {
+      listeners.delete(formId);
+    }
+  };
+};
+
+// Store view over one registry entry, for useFormById
+export const createRegistryStore = (formId: string): ReadableStore<FormContextValue | null> => ({
+  getState: () => getFormById(formId),
+  subscribe: (listener) => subscribeToForm(formId, () => listener()),
+});
@@ -0,0 +1,50 @@
+export type FormStoreListener = () => void;
+
+export interface FormStore<TState> {
+  getState: () => TState;
+  setState: (state: TState) => void;
+  subscribe: (listener: FormStoreListener) => () => void;
+}
+
+// Read side of a store, enough for useStoreSelector
+export type ReadableStore<TState> = Pick<FormStore<TState>, 'getState' | 'subscribe'>;
+
+/**
+ * Minimal external store holding the latest form snapshot.
+ * Consumers subscribe with a selector and only re-render when their slice changes.
+ */
+export const createFormStore = <TState>(initialState: TState): FormStore<TState> => {
+  let state = initialState;
+  const listeners = new Set<FormStoreListener>();
+
+  return {
+    getState: () => state,
+    setState: (nextState: TState) => {
+      if (Object.is(nextState, state)) {
+        return;
+      }
+      state = nextState;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener: FormStoreListener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+/**
+ * One-level comparison for selectors that return a new object or array on each call
+ */
+export const shallowEqual = (a: any, b: any): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+
+  return keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+};
@@ -1,26 +1,47 @@
-import { useCallback } from 'react';
-import { useFormContext } from './FormProvider';
-import { UseFormReturn, UseFieldReturn } from '../types';
+import { useCallback, useMemo, useRef } from 'react';
+import { useFormContext, useFormSelector, useFormStore, FormContextValue } from './FormProvider';
+import { createRegistryStore } from './formRegistry';
+import { useStoreSelector } from './hooks/useStoreSelector';
+import { shallowEqual } from './formStore';
+import { useNavigationGuard } from './hooks/useNavigationGuard';
+import { useFieldScopeRegistration } from './hooks/useFieldRegistration';
+import { FormState, FieldPath, FieldPathValue, UseFormReturn, UseFieldReturn, UseFieldArrayReturn, UseDraftReturn, UnsavedChangesGuardOptions, UseUnsavedChangesGuardReturn, FormMessages, UseFormMessagesReturn } from '../types';
+import { getIn, joinPath } from '../utils/paths';
+import { formatFieldValue, parseFieldValue } from '../utils/fieldTransforms';
+import { formatMessage } from '../utils/messages';
+import { getFieldIds } from '../utils/a11y';
 
 // Re-export useFormContext for convenience
-export { useFormContext };
+export { useFormContext, useFormSelector };
 
 /**
  * Hook to access form state and methods
  * Must be used within a FormProvider
+ * Pass the values type to get typed field names: `useForm<ProjectValues>()`
  */
-export const useForm = (): UseFormReturn => {
+export const useForm = <TValues extends FormState = FormState>(): UseFormReturn<TValues> => {
   const context = useFormContext();
   return {
-    values: context.values,
+    values: context.values as TValues,
     errors: context.errors,
     touched: context.touched,
     dirtyFields: context.dirtyFields,
     isSubmitting: context.isSubmitting,
+    submitCount: context.submitCount,
+    submitStatus: context.submitStatus,
+    submitError: context.submitError,
+    lastSavedAt: context.lastSavedAt,
+    lastSaveResult: context.lastSaveResult,
+    conflict: context.conflict,
     isLoading: context.isLoading,
     isValid: context.isValid,
+    isValidating: context.isValidating,
+    validatingFields: context.validatingFields,
+    canUndo: context.canUndo,
+    canRedo: context.canRedo,
     itemData: context.itemData,
     itemId: context.itemId,
+    mode: context.mode,
     listName: context.listName,
     listUrl: context.listUrl,
     setValue: context.setValue,
@@ -35,34 +56,264 @@ export const useForm = (): UseFormReturn => {
     resetField: context.resetField,
     validate: context.validate,
     validateField: context.validateField,
+    validateFields: context.validateFields,
+    getFieldRuleState: context.getFieldRuleState,
+    focusField: context.focusField,
+    announce: context.announce,
+    undo: context.undo,
+    redo: context.redo,
     reloadItemData: context.reloadItemData,
+    resolveConflict: context.resolveConflict,
+    cancelConflict: context.cancelConflict,
   };
 };
 
 /**
  * Hook to access a specific form field
  * Must be used within a FormProvider
+ * Typed usage: `useField<ProjectValues, 'Budget'>('Budget')`
  */
-export const useField = (name: string): UseFieldReturn => {
-  const { values, errors, touched, handleChange, handleBlur } = useFormContext();
+export const useField = <TValues extends FormState = FormState, K extends FieldPath<TValues> = FieldPath<TValues>>(
+  name: K
+): UseFieldReturn<FieldPathValue<TValues, K>> => {
+  const store = useFormStore();
+  useFieldScopeRegistration(name);
 
+  // Only this field's slice is compared, so edits to other fields do not re-render it
+  const { value: storedValue, ...field } = useFormSelector((form) => {
+    const ruleState = form.getFieldRuleState(name);
+    return {
+      value: getIn(form.values, name),
+      error: form.errors[name] || null,
+      touched: form.touched[name] || false,
+      visible: ruleState.visible !== false,
+      required: ruleState.required,
+      disabled: ruleState.disabled === true,
+      readOnly: ruleState.readOnly === true || form.mode === 'display',
+    };
+  }, shallowEqual);
+
+  // Formatted outside the selector so a format returning new objects (e.g. Date) does not re-render on every change
+  const fieldTransforms = useFormSelector((form) => form.config.fieldTransforms);
+  const value = useMemo(
+    () => formatFieldValue(fieldTransforms, name, storedValue),
+    [fieldTransforms, name, storedValue]
+  );
+
+  // Handlers read the latest form from the store so their identity stays stable
   const onChange = useCallback(
-    (value: any) => {
-      handleChange(name, value);
+    (displayValue: any) => {
+      const form = store.getState();
+      form.handleChange(name, parseFieldValue(form.config.fieldTransforms, name, displayValue));
     },
-    [name, handleChange]
+    [name, store]
   );
 
   const onBlur = useCallback(() => {
-    handleBlur(name);
-  }, [name, handleBlur]);
+    store.getState().handleBlur(name);
+  }, [name, store]);
+
+  // Callback ref that keeps the field's root element registered for focusField/focusOnError
+  const unregisterElementRef = useRef<(() => void) | null>(null);
+  const ref = useCallback(
+    (element: HTMLElement | null) => {
+      if (unregisterElementRef.current) {
+        unregisterElementRef.current();
+      }
+      unregisterElementRef.current = element ? store.getState().registerFieldElement(name, element) : null;
+    },
+    [name, store]
+  );
+
+  const idPrefix = useFormSelector((form) => form.idPrefix);
+  const ids = useMemo(() => getFieldIds(idPrefix, name), [idPrefix, name]);
 
   return {
-    value: values[name],
-    error: errors[name] || null,
-    touched: touched[name] || false,
+    ...field,
+    value,
     onChange,
     onBlur,
+    ref,
+    ids,
   };
 };
 
+
+let fieldArrayKeyCounter = 0;
+const createRowKey = () => `row-${++fieldArrayKeyCounter}`;
+
+const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+};
+
+/**
+ * Hook to manage a repeating group of rows stored as an array value
+ * Row fields are addressed by path, e.g. `useField('lines[0].Amount')`
+ * Must be used within a FormProvider
+ */
+export const useFieldArray = <TValues extends FormState = FormState, K extends FieldPath<TValues> = FieldPath<TValues>>(
+  name: K
+): UseFieldArrayReturn<FieldPathValue<TValues, K> extends Array<infer TRow> ? TRow : any> => {
+  const store = useFormStore();
+  const rowCount = useFormSelector((form) => {
+    const rows = getIn(form.values, name);
+    return Array.isArray(rows) ? rows.length : 0;
+  });
+  const updateFieldArray = useCallback(
+    (arrayName: string, update: (rows: any[]) => any[], remap: (index: number) => number | undefined) => {
+      store.getState().updateFieldArray(arrayName, update, remap);
+    },
+    [store]
+  );
+  const keysRef = useRef<string[]>([]);
+
+  // Rows replaced from outside (item load, setValues) get keys for any new positions
+  if (keysRef.current.length !== rowCount) {
+    keysRef.current = Array.from({ length: rowCount }, (_, i) => keysRef.current[i] || createRowKey());
+  }
+
+  const append = useCallback(
+    (row: any) => {
+      keysRef.current = [...keysRef.current, createRowKey()];
+      updateFieldArray(name, (current) => [...current, row], (i) => i);
+    },
+    [name, updateFieldArray]
+  );
+
+  const insert = useCallback(
+    (index: number, row: any) => {
+      const keys = [...keysRef.current];
+      keys.splice(index, 0, createRowKey());
+      keysRef.current = keys;
+      updateFieldArray(
+        name,
+        (current) => {
+          const next = [...current];
+          next.splice(index, 0, row);
+          return next;
+        },
+        (i) => (i >= index ? i + 1 : i)
+      );
+    },
+    [name, updateFieldArray]
+  );
+
+  const remove = useCallback(
+    (index: number) => {
+      keysRef.current = keysRef.current.filter((_, i) => i !== index);
+      updateFieldArray(
+        name,
+        (current) => current.filter((_, i) => i !== index),
+        (i) => (i === index ? undefined : i > index ? i - 1 : i)
+      );
+    },
+    [name, updateFieldArray]
+  );
+
+  const move = useCallback(
+    (from: number, to: number) => {
+      const order = moveItem(keysRef.current.map((_, i) => i), from, to);
+      keysRef.current = moveItem(keysRef.current, from, to);
+      updateFieldArray(name, (current) => moveItem(current, from, to), (i) => order.indexOf(i));
+    },
+    [name, updateFieldArray]
+  );
+
+  const swap = useCallback(
+    (indexA: number, indexB: number) => {
+      const swapIndex = (i: number) => (i === indexA ? indexB : i === indexB ? indexA : i);
+      keysRef.current = keysRef.current.map((_, i) => keysRef.current[swapIndex(i)]);
+      updateFieldArray(
+        name,
+        (current) => current.map((_, i) => current[swapIndex(i)]),
+        swapIndex
+      );
+    },
+    [name, updateFieldArray]
+  );
+
+  return {
+    fields: keysRef.current.map((key, index) => ({ key, index, name: joinPath(name, index) })),
+    append,
+    insert,
+    remove,
+    move,
+    swap,
+  };
+};
+
+const selectDraft = (form: { draft: UseDraftReturn }) => form.draft;
+
+/**
+ * Hook to offer restore/discard of a locally saved draft (requires `draft` in FormProvider config)
+ * Must be used within a FormProvider
+ */
+export const useDraft = (): UseDraftReturn => {
+  return useFormSelector(selectDraft);
+};
+
+/**
+ * Hook to warn about unsaved edits before leaving, and to confirm custom navigation such as a Cancel button
+ * When FormProvider already has `unsavedChangesGuard` set, only confirmNavigation is added here
+ * Must be used within a FormProvider
+ */
+export const useUnsavedChangesGuard = (options: UnsavedChangesGuardOptions = {}): UseUnsavedChangesGuardReturn => {
+  const isDirty = useFormSelector((form) => form.hasUnsavedChanges);
+  const providerGuard = useFormSelector((form) => form.config.unsavedChangesGuard);
+  const providerOptions = typeof providerGuard === 'object' ? providerGuard : {};
+  const defaultMessage = useFormSelector((form) => form.messages.unsavedChanges);
+
+  const confirmNavigation = useNavigationGuard({
+    message: defaultMessage,
+    ...providerOptions,
+    ...options,
+    enabled: !providerGuard && options.enabled !== false,
+    isDirty,
+  });
+
+  return { isDirty, confirmNavigation };
+};
+
+/**
+ * Message catalog of the surrounding form (see `config.locale`), for custom components
+ *
+ * @example
+ * ```tsx
+ * const { formatMessage } = useFormMessages();
+ * return <Spinner label={formatMessage('loadingField', { field: 'Budget' })} />;
+ * ```
+ */
+export const useFormMessages = (): UseFormMessagesReturn => {
+  const locale = useFormSelector((form) => form.locale);
+  const messages = useFormSelector((form) => form.messages);
+
+  const format = useCallback(
+    (key: keyof FormMessages, params?: Record<string, any>) => formatMessage(messages[key], params),
+    [messages]
+  );
+
+  return { locale, messages, formatMessage: format };
+};
+
+const selectRegisteredForm = (form: FormContextValue | null) => form;
+
+/**
+ * Read a form registered with `config.formId` from anywhere in the app, not only inside its FormProvider.
+ * Returns null (or the selector's result for null) while that form is not mounted
+ *
+ * @example
+ * ```tsx
+ * const isDirty = useFormById('project', (form) => !!form?.hasUnsavedChanges);
+ * ```
+ */
+export const useFormById = <TSelected = FormContextValue | null>(
+  formId: string,
+  selector: (form: FormContextValue | null) => TSelected = selectRegisteredForm as (form: FormContextValue | null) => TSelected,
+  isEqual?: (a: TSelected, b: TSelected) => boolean
+): TSelected => {
+  const store = useMemo(() => createRegistryStore(formId), [formId]);
+  return useStoreSelector(store, selector, isEqual);
+};
@@ -0,0 +1,169 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { FormState, FieldError, FieldRules, FormMessages, ValidationRule, ValidationSchema } from '../../types';
+import { validateField, getEffectiveRules, getValidationPaths } from '../../utils/validation';
+import { deepEqual } from '../../utils/dirtyFields';
+import { getIn } from '../../utils/paths';
+
+const DEFAULT_ASYNC_DEBOUNCE = 400;
+
+// A run superseded or cancelled before it finished: the value was not checked, so it never counts as valid
+const CANCELLED: FieldError = { message: '', type: 'cancelled' };
+
+interface PendingValidation {
+  timer?: ReturnType<typeof setTimeout>;
+  controller: AbortController;
+  resolve: (error: FieldError | null) => void;
+}
+
+interface UseAsyncValidationProps {
+  values: FormState;
+  validationSchema?: ValidationSchema;
+  fieldRules?: FieldRules;
+  messages: FormMessages;
+  setError: (name: string, error: FieldError | null) => void;
+}
+
+export const useAsyncValidation = ({
+  values,
+  validationSchema,
+  fieldRules,
+  messages,
+  setError,
+}: UseAsyncValidationProps) => {
+  const [validatingFields, setValidatingFields] = useState<Record<string, boolean>>({});
+  const pendingRef = useRef<Record<string, PendingValidation>>({});
+  const lastResultRef = useRef<Record<string, { value: any; values: FormState; error: FieldError | null }>>({});
+
+  const setFieldValidating = useCallback((name: string, isValidating: boolean) => {
+    setValidatingFields((prev) => {
+      if (!!prev[name] === isValidating) {
+        return prev;
+      }
+      const next = { ...prev };
+      if (isValidating) {
+        next[name] = true;
+      } else {
+        delete next[name];
+      }
+      return next;
+    });
+  }, []);
+
+  const cancelAsyncValidation = useCallback((name: string) => {
+    const pending = pendingRef.current[name];
+    if (!pending) {
+      return;
+    }
+    if (pending.timer) {
+      clearTimeout(pending.timer);
+    }
+    pending.controller.abort();
+    pending.resolve(CANCELLED);
+    delete pendingRef.current[name];
+    setFieldValidating(name, false);
+  }, [setFieldValidating]);
+
+  const cancelAllAsyncValidation = useCallback(() => {
+    Object.keys(pendingRef.current).forEach(cancelAsyncValidation);
+    lastResultRef.current = {};
+  }, [cancelAsyncValidation]);
+
+  const runAsyncValidation = useCallback(
+    (name: string, value: any, currentValues: FormState, rules: ValidationRule, immediate: boolean = false): Promise<FieldError | null> => {
+      cancelAsyncValidation(name);
+
+      if (!rules.asyncValidate) {
+        return Promise.resolve(null);
+      }
+
+      // Validators see the whole form, so a result is reused only when no value has changed since
+      const lastResult = lastResultRef.current[name];
+      if (lastResult && deepEqual(lastResult.value, value) && deepEqual(lastResult.values, currentValues)) {
+        setError(name, lastResult.error);
+        return Promise.resolve(lastResult.error);
+      }
+
+      const asyncValidate = rules.asyncValidate;
+      const controller = new AbortController();
+      setFieldValidating(name, true);
+
+      return new Promise<FieldError | null>((resolve) => {
+        const pending: PendingValidation = { controller, resolve };
+        pendingRef.current[name] = pending;
+
+        const run = async () => {
+          pending.timer = undefined;
+          try {
+            const message = await asyncValidate(value, { values: currentValues, signal: controller.signal });
+            if (controller.signal.aborted) {
+              return;
+            }
+            const error = message ? { message, type: 'async' } : null;
+            lastResultRef.current[name] = { value, values: currentValues, error };
+            setError(name, error);
+            resolve(error);
+          } catch (error: any) {
+            if (!controller.signal.aborted) {
+              console.warn(`Async validation failed for ${name}:`, error);
+              const failed = { message: messages.asyncValidationFailed, type: 'async' };
+              setError(name, failed);
+              resolve(failed);
+            }
+          } finally {
+            if (pendingRef.current[name] === pending) {
+              delete pendingRef.current[name];
+              setFieldValidating(name, false);
+            }
+          }
+        };
+
+        if (immediate) {
+          run();
+        } else {
+          pending.timer = setTimeout(run, rules.asyncDebounce ?? DEFAULT_ASYNC_DEBOUNCE);
+        }
+      });
+    },
+    [cancelAsyncValidation, messages, setError, setFieldValidating]
+  );
+
+  // Run every async validator whose field passes its sync rules, without debounce
+  const validateAsync = useCallback(async (): Promise<boolean> => {
+    const paths = getValidationPaths(values, validationSchema, fieldRules);
+    const results = await Promise.all(
+      paths.map((path) => {
+        const rules = getEffectiveRules(values, path, validationSchema, fieldRules);
+        const value = getIn(values, path);
+        if (!rules?.asyncValidate || validateField(value, rules, values)) {
+          return Promise.resolve(null);
+        }
+        return runAsyncValidation(path, value, values, rules, true);
+      })
+    );
+    return results.every((error) => error === null);
+  }, [values, validationSchema, fieldRules, runAsyncValidation]);
+
+  // No state updates after unmount, but a submit waiting on these runs still gets an answer
+  useEffect(() => {
+    return () => {
+      Object.keys(pendingRef.current).forEach((name) => {
+        const pending = pendingRef.current[name];
+        if (pending.timer) {
+          clearTimeout(pending.timer);
+        }
+        pending.controller.abort();
+        pending.resolve(CANCELLED);
+      });
+      pendingRef.current = {};
+    };
+  }, []);
+
+  return {
+    validatingFields,
+    isValidating: Object.keys(validatingFields).length > 0,
+    runAsyncValidation,
+    cancelAsyncValidation,
+    cancelAllAsyncValidation,
+    validateAsync,
+  };
+};
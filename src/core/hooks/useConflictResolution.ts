@@ -0,0 +1,63 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FormState, FormDirtyFields, SaveConflict, ConflictResolution, SubmitResult } from '../../types';
+import { applyConflictResolution } from '../../utils/concurrency';
+
+interface UseConflictResolutionProps {
+  conflict: SaveConflict | null;
+  values: FormState;
+  dirtyFields: FormDirtyFields;
+  initialValuesRef: React.MutableRefObject<FormState>;
+  eTagRef: React.MutableRefObject<string | undefined>;
+  setValues: (values: FormState) => void;
+  setDirtyFields: (dirtyFields: FormDirtyFields) => void;
+  clearConflict: () => void;
+  handleSubmit: () => Promise<SubmitResult>;
+}
+
+export const useConflictResolution = ({
+  conflict,
+  values,
+  dirtyFields,
+  initialValuesRef,
+  eTagRef,
+  setValues,
+  setDirtyFields,
+  clearConflict,
+  handleSubmit,
+}: UseConflictResolutionProps) => {
+  const [resubmitCount, setResubmitCount] = useState(0);
+  const pendingResolveRef = useRef<((result: SubmitResult) => void) | null>(null);
+
+  const resolveConflict = useCallback((resolution: ConflictResolution = {}): Promise<SubmitResult> => {
+    if (!conflict) {
+      return Promise.resolve({ status: 'skipped' });
+    }
+
+    const next = applyConflictResolution(conflict, resolution, values, initialValuesRef.current, dirtyFields);
+    initialValuesRef.current = next.originalValues;
+    eTagRef.current = conflict.eTag;
+    setValues(next.values);
+    setDirtyFields(next.dirtyFields);
+    clearConflict();
+
+    return new Promise((resolve) => {
+      pendingResolveRef.current = resolve;
+      setResubmitCount((count) => count + 1);
+    });
+  }, [conflict, values, dirtyFields, initialValuesRef, eTagRef, setValues, setDirtyFields, clearConflict]);
+
+  // The merged values only reach handleSubmit after they render
+  useEffect(() => {
+    const resolve = pendingResolveRef.current;
+    if (!resolve) {
+      return;
+    }
+    pendingResolveRef.current = null;
+    handleSubmit().then(resolve);
+  }, [resubmitCount]);
+
+  return {
+    resolveConflict,
+    cancelConflict: clearConflict,
+  };
+};
@@ -0,0 +1,42 @@
+import { useCallback, useLayoutEffect, useRef } from 'react';
+
+export type ControlAriaAttributes = Record<string, string | undefined>;
+
+/**
+ * For third-party controls that do not forward aria props (e.g. react-selectify), sets the attributes
+ * on the first input inside the returned ref's element after every render.
+ * `forwardRef` also receives the element, e.g. useField's `ref`.
+ */
+export const useControlAria = (
+  attributes: ControlAriaAttributes,
+  forwardRef?: (element: HTMLElement | null) => void
+) => {
+  const elementRef = useRef<HTMLElement | null>(null);
+
+  const ref = useCallback(
+    (element: HTMLElement | null) => {
+      elementRef.current = element;
+      if (forwardRef) {
+        forwardRef(element);
+      }
+    },
+    [forwardRef]
+  );
+
+  useLayoutEffect(() => {
+    const control = elementRef.current?.querySelector('input, textarea');
+    if (!control) {
+      return;
+    }
+    Object.keys(attributes).forEach((name) => {
+      const value = attributes[name];
+      if (value === undefined) {
+        control.removeAttribute(name);
+      } else {
+        control.setAttribute(name, value);
+      }
+    });
+  });
+
+  return ref;
+};
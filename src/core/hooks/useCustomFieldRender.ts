@@ -0,0 +1,40 @@
+import React from 'react';
+import { CustomFieldRenderProps } from '../../types';
+import { useFormSelector, useFormStore } from '../FormProvider';
+import { shallowEqual } from '../formStore';
+import { getIn } from '../../utils/paths';
+import { formatFieldValue, parseFieldValue } from '../../utils/fieldTransforms';
+
+/**
+ * Output of `config.onRenderField` for a field, or null to use the built-in component.
+ * The renderer runs in the field itself, so the field re-renders only when its own value, error or touched state changes;
+ * `form` in the render props is the form as of that render
+ */
+export const useCustomFieldRender = (name: string): React.ReactNode | null => {
+  const store = useFormStore();
+  const onRenderField = useFormSelector((form) => form.config.onRenderField);
+  const field = useFormSelector(
+    (form) => onRenderField
+      ? { value: getIn(form.values, name), error: form.errors[name] || null, touched: form.touched[name] || false }
+      : null,
+    shallowEqual
+  );
+
+  if (!onRenderField || !field) {
+    return null;
+  }
+
+  const form = store.getState();
+  const props: CustomFieldRenderProps = {
+    name,
+    value: formatFieldValue(form.config.fieldTransforms, name, field.value),
+    error: field.error,
+    touched: field.touched,
+    onChange: (value: any) => form.handleChange(name, parseFieldValue(form.config.fieldTransforms, name, value)),
+    onBlur: () => form.handleBlur(name),
+    setValue: form.setValue,
+    getValue: form.getValue,
+    form,
+  };
+  return onRenderField(props);
+};
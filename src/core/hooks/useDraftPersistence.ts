@@ -0,0 +1,154 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { DraftConfig, FormDirtyFields, FormDraft, FormState, UseDraftReturn } from '../../types';
+import { createDraftStorage } from '../../services/draftStorage';
+import { deepEqual } from '../../utils/dirtyFields';
+
+const DEFAULT_DRAFT_DEBOUNCE = 1000;
+
+interface UseDraftPersistenceProps {
+  draft?: boolean | DraftConfig;
+  listName?: string;
+  itemId?: number;
+  values: FormState;
+  dirtyFields: FormDirtyFields;
+  isLoading: boolean;
+  isItemLoaded: boolean; // False in edit mode until the item has loaded
+  isSubmitting: boolean;
+  applyDraftValues: (values: FormState) => void;
+}
+
+const getCurrentUserKey = (): string => {
+  const pageContext = typeof window !== 'undefined' ? (window as any)._spPageContextInfo : undefined;
+  return String(pageContext?.userLoginName || pageContext?.userId || 'anonymous');
+};
+
+export const useDraftPersistence = ({
+  draft,
+  listName,
+  itemId,
+  values,
+  dirtyFields,
+  isLoading,
+  isItemLoaded,
+  isSubmitting,
+  applyDraftValues,
+}: UseDraftPersistenceProps) => {
+  const options: DraftConfig = draft && typeof draft === 'object' ? draft : {};
+  const isEnabled = !!draft;
+  const debounce = options.debounce ?? DEFAULT_DRAFT_DEBOUNCE;
+  const draftKey = options.key
+    || `${listName || 'form'}:${itemId && itemId > 0 ? itemId : 'new'}:${options.userId ?? getCurrentUserKey()}`;
+
+  const storage = useMemo(() => createDraftStorage(options.storage), [options.storage]);
+  const [pendingDraft, setPendingDraft] = useState<FormDraft | null>(null);
+  const [checkedKey, setCheckedKey] = useState<string | null>(null);
+  const valuesRef = useRef(values);
+  valuesRef.current = values;
+
+  // Look for a stored draft once per key, after the item itself has loaded;
+  // before that the draft would be compared with the empty pre-load values
+  useEffect(() => {
+    if (!isEnabled || isLoading || !isItemLoaded || checkedKey === draftKey) {
+      return;
+    }
+
+    let cancelled = false;
+    storage
+      .load(draftKey)
+      .then((stored) => stored && !deepEqual(stored.values, valuesRef.current) ? stored : null)
+      .catch((error) => {
+        console.warn('Failed to load form draft:', error);
+        return null;
+      })
+      .then((stored) => {
+        if (cancelled) return;
+        setPendingDraft(stored);
+        setCheckedKey(draftKey);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isEnabled, isLoading, isItemLoaded, checkedKey, draftKey, storage]);
+
+  const isDirty = Object.keys(dirtyFields).length > 0;
+
+  // Autosave is held back while an older draft is waiting for restore/discard, so it is never overwritten,
+  // and while submitting, so a pending save cannot bring back a draft the submit just cleared
+  const canAutosave = isEnabled && !isLoading && !isSubmitting && checkedKey === draftKey && !pendingDraft;
+
+  const persist = useCallback(
+    (currentValues: FormState, dirty: boolean) => {
+      const operation = dirty
+        ? storage.save(draftKey, { values: currentValues, savedAt: new Date().toISOString() })
+        : storage.remove(draftKey);
+      operation.catch((error) => {
+        console.warn('Failed to save form draft:', error);
+      });
+    },
+    [storage, draftKey]
+  );
+
+  useEffect(() => {
+    if (!canAutosave) {
+      return;
+    }
+
+    const timer = setTimeout(() => persist(values, isDirty), debounce);
+    return () => clearTimeout(timer);
+  }, [canAutosave, values, isDirty, debounce, persist]);
+
+  // Flush the latest edits when the page is being closed or refreshed
+  const flushRef = useRef<() => void>(() => undefined);
+  flushRef.current = () => {
+    if (canAutosave && isDirty) {
+      persist(valuesRef.current, true);
+    }
+  };
+
+  useEffect(() => {
+    if (!isEnabled || typeof window === 'undefined') {
+      return;
+    }
+    const onPageHide = () => flushRef.current();
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  }, [isEnabled]);
+
+  const restore = useCallback(() => {
+    if (!pendingDraft || isLoading) {
+      return;
+    }
+    applyDraftValues(pendingDraft.values);
+    setPendingDraft(null);
+  }, [pendingDraft, isLoading, applyDraftValues]);
+
+  const clearDraft = useCallback(async () => {
+    setPendingDraft(null);
+    if (!isEnabled) {
+      return;
+    }
+    try {
+      await storage.remove(draftKey);
+    } catch (error) {
+      console.warn('Failed to remove form draft:', error);
+    }
+  }, [isEnabled, storage, draftKey]);
+
+  const discard = useCallback(() => {
+    clearDraft();
+  }, [clearDraft]);
+
+  const draftState = useMemo((): UseDraftReturn => ({
+    isEnabled,
+    hasDraft: !!pendingDraft && !isLoading,
+    savedAt: pendingDraft ? new Date(pendingDraft.savedAt) : undefined,
+    restore,
+    discard,
+  }), [isEnabled, pendingDraft, isLoading, restore, discard]);
+
+  return {
+    draftState,
+    clearDraft,
+  };
+};
@@ -0,0 +1,64 @@
+import { useCallback, useRef } from 'react';
+import { FormErrors } from '../../types';
+
+const FOCUSABLE_SELECTOR = 'input:not([type="hidden"]), textarea, select, button, [tabindex]:not([tabindex="-1"])';
+
+// Scrolls a field into view and focuses its first control that accepts focus (hidden or disabled ones are skipped)
+const focusElement = (element: HTMLElement): boolean => {
+  if (typeof element.scrollIntoView === 'function') {
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }
+
+  const candidates = [
+    ...(element.matches(FOCUSABLE_SELECTOR) ? [element] : []),
+    ...Array.from(element.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR)),
+  ];
+  return candidates.some((candidate) => {
+    candidate.focus({ preventScroll: true });
+    return element.ownerDocument.activeElement === candidate;
+  });
+};
+
+// DOM order, so "first" means the first invalid field the user sees rather than the first key in errors
+const compareDocumentOrder = (a: HTMLElement, b: HTMLElement): number => {
+  if (a === b) return 0;
+  return a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1;
+};
+
+export const useFieldFocus = (errors: FormErrors) => {
+  const elementsRef = useRef<Map<string, HTMLElement>>(new Map());
+  const errorsRef = useRef(errors);
+  errorsRef.current = errors;
+
+  const registerFieldElement = useCallback((name: string, element: HTMLElement): (() => void) => {
+    elementsRef.current.set(name, element);
+    return () => {
+      // Another component may have taken over the name since
+      if (elementsRef.current.get(name) === element) {
+        elementsRef.current.delete(name);
+      }
+    };
+  }, []);
+
+  const focusField = useCallback((name: string): boolean => {
+    const element = elementsRef.current.get(name);
+    return element ? focusElement(element) : false;
+  }, []);
+
+  const focusFirstError = useCallback((): boolean => {
+    const currentErrors = errorsRef.current;
+    const invalidElements = Object.keys(currentErrors)
+      .filter((name) => currentErrors[name])
+      .map((name) => elementsRef.current.get(name))
+      .filter((element): element is HTMLElement => !!element)
+      .sort(compareDocumentOrder);
+
+    return invalidElements.some(focusElement);
+  }, []);
+
+  return {
+    registerFieldElement,
+    focusField,
+    focusFirstError,
+  };
+};
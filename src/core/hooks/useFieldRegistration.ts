@@ -1,4 +1,4 @@
-import { useState, useCallback, useRef } from 'react';
+import { useState, useCallback, useRef, useEffect, useContext, createContext } from 'react';
 
 export const useFieldRegistration = () => {
   const [registeredFields, setRegisteredFields] = useState<Set<string>>(new Set());
@@ -22,3 +22,15 @@ export const useFieldRegistration = () => {
   };
 };
 
+// Lets a section of the form (e.g. a wizard step) collect the names of the fields rendered inside it
+export const FieldRegistrationScopeContext = createContext<((fieldName: string) => void) | null>(null);
+
+export const useFieldScopeRegistration = (fieldName: string) => {
+  const registerInScope = useContext(FieldRegistrationScopeContext);
+
+  useEffect(() => {
+    if (registerInScope && fieldName) {
+      registerInScope(fieldName);
+    }
+  }, [registerInScope, fieldName]);
+};
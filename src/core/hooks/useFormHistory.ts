@@ -0,0 +1,86 @@
+import { useState, useCallback, useRef } from 'react';
+import { FormState } from '../../types';
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const TYPING_GROUP_WINDOW = 1000;
+
+interface UseFormHistoryProps {
+  limit?: number;
+}
+
+export const useFormHistory = ({ limit = DEFAULT_HISTORY_LIMIT }: UseFormHistoryProps) => {
+  const pastRef = useRef<FormState[]>([]);
+  const futureRef = useRef<FormState[]>([]);
+  const lastRecordRef = useRef<{ fieldName?: string; time: number } | null>(null);
+  const [historySize, setHistorySize] = useState({ past: 0, future: 0 });
+
+  const syncHistorySize = useCallback(() => {
+    setHistorySize({ past: pastRef.current.length, future: futureRef.current.length });
+  }, []);
+
+  // Store the values from before a change. Rapid edits to the same field extend the current entry
+  const recordHistory = useCallback(
+    (previousValues: FormState, fieldName?: string) => {
+      const now = Date.now();
+      const lastRecord = lastRecordRef.current;
+      lastRecordRef.current = { fieldName, time: now };
+      futureRef.current = [];
+
+      const isTypingBurst =
+        !!fieldName &&
+        lastRecord?.fieldName === fieldName &&
+        now - lastRecord.time < TYPING_GROUP_WINDOW &&
+        pastRef.current.length > 0;
+
+      if (!isTypingBurst) {
+        pastRef.current = [...pastRef.current, previousValues].slice(-Math.max(limit, 1));
+      }
+      syncHistorySize();
+    },
+    [limit, syncHistorySize]
+  );
+
+  const takeUndo = useCallback(
+    (currentValues: FormState): FormState | undefined => {
+      const previous = pastRef.current[pastRef.current.length - 1];
+      if (!previous) return undefined;
+
+      pastRef.current = pastRef.current.slice(0, -1);
+      futureRef.current = [...futureRef.current, currentValues];
+      lastRecordRef.current = null;
+      syncHistorySize();
+      return previous;
+    },
+    [syncHistorySize]
+  );
+
+  const takeRedo = useCallback(
+    (currentValues: FormState): FormState | undefined => {
+      const next = futureRef.current[futureRef.current.length - 1];
+      if (!next) return undefined;
+
+      futureRef.current = futureRef.current.slice(0, -1);
+      pastRef.current = [...pastRef.current, currentValues];
+      lastRecordRef.current = null;
+      syncHistorySize();
+      return next;
+    },
+    [syncHistorySize]
+  );
+
+  const clearHistory = useCallback(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    lastRecordRef.current = null;
+    syncHistorySize();
+  }, [syncHistorySize]);
+
+  return {
+    canUndo: historySize.past > 0,
+    canRedo: historySize.future > 0,
+    recordHistory,
+    takeUndo,
+    takeRedo,
+    clearHistory,
+  };
+};
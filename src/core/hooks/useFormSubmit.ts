@@ -1,7 +1,15 @@
-import { useCallback } from 'react';
-import { FormState, FormErrors, FormTouched } from '../../types';
-import { validateForm } from '../../utils/validation';
-import { mapFormDataToSharePoint } from '../../utils/formHelpers';
+import { useState, useCallback } from 'react';
+import { FormState, FormErrors, FormTouched, FormMessages, FormMode, SubmitResult, SubmitStatus, SaveConflict, SaveOperationResult, ChildCollectionConfig, FieldRules, ComputedFields, FieldTransforms } from '../../types';
+import { validateForm, getValidationPaths, validateFormLevel, mergeErrors, FORM_ERROR } from '../../utils/validation';
+import { mapFormDataToSharePoint, mapSharePointDataToForm, isAttachmentField } from '../../utils/formHelpers';
+import { getRootField, setIn } from '../../utils/paths';
+import { computeDirtyFields } from '../../utils/dirtyFields';
+import { saveChildCollections, mergeCreatedRowIds } from '../../utils/childCollections';
+import { clearHiddenFields } from '../../utils/fieldRules';
+import { getUnpersistedComputedFields } from '../../utils/computedFields';
+import { parseSharePointError, mapSaveErrorsToFields } from '../../utils/saveErrors';
+import { getItemETag, buildSaveConflict } from '../../utils/concurrency';
+import { updateItemWithAttachments, deleteAttachments, uploadAttachments } from '../../utils/saveOperations';
 
 interface UseFormSubmitProps {
   values: FormState;
@@ -9,6 +17,7 @@ interface UseFormSubmitProps {
   touched: FormTouched;
   dirtyFields: Record<string, boolean>;
   itemId?: number;
+  mode: FormMode;
   listName?: string;
   listUrl?: string;
   fieldMapping: Record<string, string>;
@@ -16,7 +25,17 @@ interface UseFormSubmitProps {
   apiService: any;
   itemData?: any;
   originalAttachments?: any[];
+  initialValuesRef: React.MutableRefObject<FormState>;
+  latestValuesRef: React.MutableRefObject<FormState>; // Values as of the last render, including edits made while a save is in flight
+  eTagRef: React.MutableRefObject<string | undefined>; // ETag of the loaded item, sent as If-Match on update
   config: {
+    childCollections?: ChildCollectionConfig[];
+    rules?: FieldRules;
+    clearHiddenOnSave?: boolean;
+    computed?: ComputedFields;
+    fieldTransforms?: FieldTransforms;
+    detectConflicts?: boolean;
+    validate?: (values: FormState) => FormErrors;
     validationSchema?: any;
     onBeforeSave?: (values: FormState) => FormState | Promise<FormState>;
     onValidSave?: (form: any) => boolean;
@@ -28,20 +47,50 @@ interface UseFormSubmitProps {
   setIsSubmitting: (submitting: boolean) => void;
   setErrors: (errors: FormErrors) => void;
   setTouched: (touched: FormTouched) => void;
-  setDirtyFields: (dirtyFields: Record<string, boolean>) => void;
+  setDirtyFields: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
   setItemData: (data: any) => void;
-  setAllValues: (values: FormState) => void;
+  setValues: (update: (prev: FormState) => FormState) => void;
   validate: () => boolean;
+  validateAsync: () => Promise<boolean>;
   loadItemData: () => Promise<void>;
   formHelpers: any;
+  messages: FormMessages;
+  onSubmitted?: () => void; // Runs after a save/onSubmit that did not throw
+  onInvalid?: () => void; // Runs when validation or onValidSave stops the submit
+  onSubmitError?: (message: string) => void; // Runs when the save or onSubmit throws
 }
 
+export interface SubmitState {
+  submitCount: number;
+  submitStatus: SubmitStatus;
+  submitError: string | null;
+  lastSavedAt: Date | null;
+  lastSaveResult: any;
+  conflict: SaveConflict | null;
+}
+
+// Keeps the parsed server error so the catch below can map it to fields; child list failures are not tagged
+const createSaveError = (error: string | undefined, fallback: string) => {
+  const parsed = parseSharePointError(error || fallback);
+  return Object.assign(new Error(parsed.message || fallback), { saveError: parsed });
+};
+
+const INITIAL_SUBMIT_STATE: SubmitState = {
+  submitCount: 0,
+  submitStatus: 'idle',
+  submitError: null,
+  lastSavedAt: null,
+  lastSaveResult: undefined,
+  conflict: null,
+};
+
 export const useFormSubmit = ({
   values,
   errors,
   touched,
   dirtyFields,
   itemId,
+  mode,
   listName,
   listUrl,
   fieldMapping,
@@ -49,31 +98,53 @@ export const useFormSubmit = ({
   apiService,
   itemData,
   originalAttachments,
+  initialValuesRef,
+  latestValuesRef,
+  eTagRef,
   config,
   setIsSubmitting,
   setErrors,
   setTouched,
   setDirtyFields,
   setItemData,
-  setAllValues,
+  setValues,
   validate,
+  validateAsync,
   loadItemData,
   formHelpers,
+  messages,
+  onSubmitted,
+  onInvalid,
+  onSubmitError,
 }: UseFormSubmitProps) => {
+  const [submitState, setSubmitState] = useState<SubmitState>(INITIAL_SUBMIT_STATE);
+
+  const setSubmitStatus = useCallback((submitStatus: SubmitStatus, changes?: Partial<SubmitState>) => {
+    setSubmitState((prev) => ({ ...prev, ...changes, submitStatus }));
+  }, []);
+
   const handleSubmit = useCallback(
-    async (e?: React.FormEvent) => {
+    async (e?: React.FormEvent): Promise<SubmitResult> => {
       if (e) {
         e.preventDefault();
       }
 
-      const allFields = Object.keys(config.validationSchema || {});
+      // A display form is read-only, so there is nothing to validate or save
+      if (mode === 'display') {
+        return { status: 'skipped' };
+      }
+
+      setSubmitState((prev) => ({ ...prev, submitCount: prev.submitCount + 1, submitStatus: 'validating', submitError: null, conflict: null }));
+
+      const allFields = getValidationPaths(values, config.validationSchema, config.rules);
       const newTouched: FormTouched = {};
       allFields.forEach((field) => {
         newTouched[field] = true;
       });
       setTouched(newTouched);
 
-      const isValid = validate();
+      // Async validators only run once the sync rules pass, and saving waits for them
+      const isValid = validate() && (await validateAsync());
 
       let canSave = isValid;
       if (config.onValidSave) {
@@ -84,6 +155,7 @@ export const useFormSubmit = ({
           touched,
           isValid,
           itemId: itemId && itemId > 0 ? itemId : undefined,
+          mode,
           listName,
           listUrl,
           reloadItemData: loadItemData,
@@ -92,93 +164,171 @@ export const useFormSubmit = ({
       }
 
       if (!canSave) {
+        setSubmitStatus('failed');
+        if (onInvalid) {
+          onInvalid();
+        }
+        // Async validators report through form.errors; these are the sync rules only
+        const currentErrors = mergeErrors(
+          validateForm(values, config.validationSchema, config.rules, messages),
+          validateFormLevel(values, config.validate)
+        );
         if (config.onError) {
-          const currentErrors = validateForm(values, config.validationSchema);
           config.onError(currentErrors);
         }
-        return;
+        return { status: 'invalid', errors: currentErrors };
       }
 
+      setSubmitStatus('saving');
       setIsSubmitting(true);
+      const operations: SaveOperationResult[] = [];
       try {
         let dataToSave = values;
+        let clearedFields: string[] = [];
+        if (config.clearHiddenOnSave) {
+          const cleared = clearHiddenFields(config.rules, values);
+          dataToSave = cleared.values;
+          clearedFields = cleared.clearedFields;
+        }
         if (config.onBeforeSave) {
-          dataToSave = await config.onBeforeSave(values);
+          dataToSave = await config.onBeforeSave(dataToSave);
         }
 
         let result: any;
+        let savedItemId: number | undefined = itemId && itemId > 0 ? itemId : undefined;
 
         if (autoSave && listName) {
-          const dirtyFieldNames = Object.keys(dirtyFields).filter(key => dirtyFields[key]);
+          const childCollections = config.childCollections || [];
+          const childNames = new Set(childCollections.map((collection) => collection.name));
+          const unpersistedFields = new Set(getUnpersistedComputedFields(config.computed));
+
+          // Nested dirty paths (`lines[0].Amount`) are saved through their root column
+          const dirtyFieldNames = Array.from(new Set(
+            Object.keys(dirtyFields).filter(key => dirtyFields[key]).concat(clearedFields).map(getRootField)
+          )).filter((name) => !childNames.has(name) && !unpersistedFields.has(name));
+
+          // Child rows are written to their own lists after the parent; display-only computed fields are not written at all
+          const parentData: FormState = {};
+          Object.keys(dataToSave).forEach((key) => {
+            if (!childNames.has(key) && !unpersistedFields.has(key)) {
+              parentData[key] = dataToSave[key];
+            }
+          });
+
           const { spData, filesToUpload, filesToDelete } = mapFormDataToSharePoint(
-            dataToSave, 
+            parentData, 
             fieldMapping, 
             originalAttachments,
-            itemId && itemId > 0 ? dirtyFieldNames : undefined
+            itemId && itemId > 0 ? dirtyFieldNames : undefined,
+            config.fieldTransforms
           );
 
-          let savedItemId: number;
-
           if (itemId && itemId > 0) {
-            const response = await apiService.updateItem(listName, itemId, spData, listUrl);
-            if (!response.success) {
-              throw new Error(response.error || 'Failed to update item');
+            const eTag = config.detectConflicts !== false ? eTagRef.current : undefined;
+            const { update, deletes } = await updateItemWithAttachments(apiService, {
+              listName,
+              itemId,
+              data: spData,
+              eTag,
+              fileNamesToDelete: filesToDelete.map(({ fileName }) => fileName),
+              listUrl,
+            });
+            operations.push(update, ...deletes);
+
+            // 412: someone saved the item after it was loaded; the item was not written, so the user picks what to keep
+            if (!update.success && update.statusCode === 412 && eTag) {
+              const serverResponse = await apiService.getItem(listName, itemId, listUrl);
+              if (!serverResponse.success || !serverResponse.data) {
+                throw createSaveError(serverResponse.error, 'Failed to load the current item');
+              }
+              const conflict = buildSaveConflict(
+                serverResponse.data,
+                mapSharePointDataToForm(serverResponse.data, fieldMapping, config.fieldTransforms),
+                Object.keys(parentData).filter((name) => !isAttachmentField(name)),
+                dirtyFieldNames,
+                values,
+                initialValuesRef.current
+              );
+              setSubmitStatus('conflict', { conflict });
+              return { status: 'conflict', conflict };
             }
-            result = response.data;
+
+            if (!update.success) {
+              throw createSaveError(update.error, 'Failed to update item');
+            }
+            result = update.data;
             savedItemId = itemId;
-            setItemData(response.data);
+            eTagRef.current = getItemETag(update.data);
+            setItemData(update.data);
           } else {
             const response = await apiService.addItem(listName, spData, listUrl);
+            operations.push({ operation: { type: 'addItem', listName, data: spData }, success: response.success, data: response.data, error: response.error, statusCode: response.statusCode });
             if (!response.success) {
-              throw new Error(response.error || 'Failed to create item');
+              throw createSaveError(response.error, 'Failed to create item');
             }
             result = response.data;
-            savedItemId = result.Id || itemId || 0;
+            savedItemId = result.Id || undefined;
+            eTagRef.current = getItemETag(result);
 
             if (result.Id) {
               setItemData(result);
             }
           }
 
-          if (savedItemId > 0) {
-            for (let i = 0; i < filesToDelete.length; i++) {
-              const { fileName } = filesToDelete[i];
-              try {
-                if (apiService.deleteFile) {
-                  await apiService.deleteFile(listName, savedItemId, fileName, listUrl);
-                }
-                if (i < filesToDelete.length - 1) {
-                  await new Promise(resolve => setTimeout(resolve, 100));
-                }
-              } catch (error: any) {
-                // Continue with other files
-              }
-            }
+          // Updates already deleted their attachments alongside the item write
+          const pendingDeletes = itemId && itemId > 0 ? [] : filesToDelete;
+          if (savedItemId && (filesToUpload.length > 0 || pendingDeletes.length > 0)) {
+            setSubmitStatus('uploading');
+            // A failed attachment does not fail the save; it is reported in operations
+            operations.push(
+              ...await deleteAttachments(apiService, listName, savedItemId, pendingDeletes.map(({ fileName }) => fileName), listUrl),
+              ...await uploadAttachments(apiService, listName, savedItemId, filesToUpload.map(({ attachment }) => attachment), listUrl)
+            );
+          }
 
-            for (let i = 0; i < filesToUpload.length; i++) {
-              const { attachment } = filesToUpload[i];
-              try {
-                await apiService.uploadFile(
-                  listName,
-                  savedItemId,
-                  attachment.file,
-                  attachment.name,
-                  listUrl
-                );
-                if (i < filesToUpload.length - 1) {
-                  await new Promise(resolve => setTimeout(resolve, 100));
-                }
-              } catch (error: any) {
-                // Continue with other files
-              }
+          // Adding or removing an attachment bumps the item's version, so the ETag from the item write is stale
+          const changedAttachments = operations.some(({ operation, success }) => success && (operation.type === 'deleteFile' || operation.type === 'uploadFile'));
+          if (savedItemId && changedAttachments) {
+            // The save itself went through; if this read fails the next save may report a conflict
+            const refreshed = await apiService.getItem(listName, savedItemId, listUrl).catch(() => null);
+            if (refreshed && refreshed.success && refreshed.data) {
+              eTagRef.current = getItemETag(refreshed.data);
+              setItemData(refreshed.data);
             }
           }
 
+          let childSave: { savedRows: Record<string, FormState[]>; baselineRows: Record<string, FormState[]>; failures: string[] } = { savedRows: {}, baselineRows: {}, failures: [] };
+          if (savedItemId && childCollections.length > 0) {
+            childSave = await saveChildCollections(
+              apiService,
+              childCollections,
+              savedItemId,
+              dataToSave,
+              initialValuesRef.current,
+              listUrl,
+              config.fieldTransforms
+            );
+          }
+
+          // Rebase on what reached the server, after clearHiddenOnSave and onBeforeSave; child rows that failed keep
+          // their old baseline so a retry repeats only them. Edits made while the requests were in flight are kept and stay dirty
+          let baseline: FormState = { ...dataToSave };
+          Object.keys(childSave.baselineRows).forEach((name) => {
+            baseline = setIn(baseline, name, childSave.baselineRows[name]);
+          });
+          initialValuesRef.current = baseline;
+          // Created rows get their Ids so a retry does not duplicate them
+          const withCreatedIds = (current: FormState) => mergeCreatedRowIds(current, dataToSave, childSave.savedRows);
+          setValues(withCreatedIds);
+          setDirtyFields((prev) => computeDirtyFields(withCreatedIds(latestValuesRef.current), baseline, Object.keys(prev)));
+
+          if (childSave.failures.length > 0) {
+            throw new Error(childSave.failures.join('; '));
+          }
+
           if (config.onSaveSuccess) {
             config.onSaveSuccess(result);
           }
-
-          setDirtyFields({});
         }
 
         if (config.onSubmit) {
@@ -187,16 +337,49 @@ export const useFormSubmit = ({
         } else if (!autoSave) {
           throw new Error('No onSubmit handler or autoSave configured');
         }
+
+        const savedAt = new Date();
+        setSubmitStatus('succeeded', { lastSavedAt: savedAt, lastSaveResult: result });
+
+        if (onSubmitted) {
+          onSubmitted();
+        }
+        return { status: 'succeeded', data: result, itemId: savedItemId, savedAt, ...(operations.length > 0 ? { operations } : {}) };
       } catch (error: any) {
         const errorMsg = error.message || 'Failed to submit form';
+        setSubmitStatus('failed', { submitError: errorMsg });
+
+        if (onSubmitError) {
+          onSubmitError(errorMsg);
+        }
+
+        // Required, type-conversion and column validation errors from SharePoint are shown on their fields
+        const serverErrors = error.saveError
+          ? mapSaveErrorsToFields(error.saveError, fieldMapping, Object.keys(values), messages)
+          : undefined;
+        if (serverErrors) {
+          Object.keys(serverErrors).forEach((name) => {
+            formHelpers.setError(name, serverErrors[name]);
+            formHelpers.setTouched(name, true);
+          });
+          if (onInvalid && Object.keys(serverErrors).some((name) => name !== FORM_ERROR)) {
+            onInvalid();
+          }
+        }
 
         if (config.onSaveError) {
           config.onSaveError(errorMsg);
         }
 
         if (config.onError) {
-          config.onError(errors);
+          config.onError(serverErrors ? { ...errors, ...serverErrors } : errors);
         }
+        return {
+          status: 'failed',
+          error: errorMsg,
+          ...(serverErrors ? { errors: serverErrors } : {}),
+          ...(operations.length > 0 ? { operations } : {}),
+        };
       } finally {
         setIsSubmitting(false);
       }
@@ -207,6 +390,7 @@ export const useFormSubmit = ({
       touched,
       dirtyFields,
       itemId,
+      mode,
       listName,
       listUrl,
       fieldMapping,
@@ -214,19 +398,32 @@ export const useFormSubmit = ({
       apiService,
       itemData,
       originalAttachments,
+      initialValuesRef,
+      latestValuesRef,
+      eTagRef,
       config,
       setIsSubmitting,
       setErrors,
       setTouched,
       setDirtyFields,
       setItemData,
-      setAllValues,
+      setValues,
       validate,
+      validateAsync,
       loadItemData,
       formHelpers,
+      messages,
+      onSubmitted,
+      onInvalid,
+      onSubmitError,
+      setSubmitStatus,
     ]
   );
 
-  return handleSubmit;
+  const clearConflict = useCallback(() => {
+    setSubmitStatus('idle', { conflict: null });
+  }, [setSubmitStatus]);
+
+  return { handleSubmit, submitState, clearConflict };
 };
 
@@ -0,0 +1,12 @@
+import { useState, useCallback } from 'react';
+
+export const useLiveRegion = () => {
+  const [announcement, setAnnouncement] = useState('');
+
+  // Screen readers only speak changed text, so a repeated message gets a trailing non-breaking space
+  const announce = useCallback((message: string) => {
+    setAnnouncement((previous) => (previous === message ? `${message}\u00a0` : message));
+  }, []);
+
+  return { announcement, announce };
+};
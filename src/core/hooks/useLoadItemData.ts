@@ -1,6 +1,8 @@
 import { useCallback, useEffect, useRef } from 'react';
-import { FormState } from '../../types';
+import { FormState, ChildCollectionConfig, FieldTransforms } from '../../types';
 import { mapSharePointDataToForm } from '../../utils/formHelpers';
+import { loadChildCollections } from '../../utils/childCollections';
+import { getItemETag } from '../../utils/concurrency';
 
 interface UseLoadItemDataProps {
   itemId?: number;
@@ -9,8 +11,10 @@ interface UseLoadItemDataProps {
   fieldMapping: Record<string, string>;
   apiService: any;
   registeredFields: Set<string>;
+  childCollections?: ChildCollectionConfig[];
   config: {
     initialValues?: FormState;
+    fieldTransforms?: FieldTransforms;
     onItemLoaded?: (data: any) => void;
     onLoadError?: (error: string) => void;
   };
@@ -19,6 +23,7 @@ interface UseLoadItemDataProps {
   setOriginalAttachments: (attachments: any[]) => void;
   setValues: (values: FormState) => void;
   setInitialValuesRef: (values: FormState) => void;
+  eTagRef: React.MutableRefObject<string | undefined>;
 }
 
 export const useLoadItemData = ({
@@ -28,12 +33,14 @@ export const useLoadItemData = ({
   fieldMapping,
   apiService,
   registeredFields,
+  childCollections,
   config,
   setIsLoading,
   setItemData,
   setOriginalAttachments,
   setValues,
   setInitialValuesRef,
+  eTagRef,
 }: UseLoadItemDataProps) => {
   const loadItemData = useCallback(async () => {
     if (!itemId || itemId === 0 || !listName) {
@@ -46,8 +53,10 @@ export const useLoadItemData = ({
 
       if (response.success && response.data) {
         setItemData(response.data);
+        // Updates send it back as If-Match, so a save over someone else's newer version is refused
+        eTagRef.current = getItemETag(response.data);
 
-        const mappedData = mapSharePointDataToForm(response.data, fieldMapping);
+        const mappedData = mapSharePointDataToForm(response.data, fieldMapping, config.fieldTransforms);
 
         try {
           if (apiService.getAttachmentFiles && typeof apiService.getAttachmentFiles === 'function') {
@@ -82,6 +91,17 @@ export const useLoadItemData = ({
           setOriginalAttachments([]);
         }
 
+        if (childCollections && childCollections.length > 0) {
+          try {
+            const childRows = await loadChildCollections(apiService, childCollections, itemId, listUrl, config.fieldTransforms);
+            Object.assign(mappedData, childRows);
+          } catch (childError: any) {
+            if (config.onLoadError) {
+              config.onLoadError(childError.message || 'Failed to load child items');
+            }
+          }
+        }
+
         const mergedValues = {
           ...mappedData,
           ...(config.initialValues || {}),
@@ -107,7 +127,7 @@ export const useLoadItemData = ({
     } finally {
       setIsLoading(false);
     }
-  }, [itemId, listName, listUrl, fieldMapping, apiService, config, setIsLoading, setItemData, setOriginalAttachments, setValues, setInitialValuesRef]);
+  }, [itemId, listName, listUrl, fieldMapping, apiService, childCollections, config, setIsLoading, setItemData, setOriginalAttachments, setValues, setInitialValuesRef, eTagRef]);
 
   const hasLoadedRef = useRef<string>('');
   useEffect(() => {
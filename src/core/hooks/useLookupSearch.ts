@@ -0,0 +1,181 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { ApiResponse, ListItemsPage, ListItemsSearchOptions } from '../../types';
+
+const SEARCH_DEBOUNCE = 300;
+
+export interface LookupOption {
+  key: string;
+  text: string;
+}
+
+type SearchListItems = (listName: string, listUrl?: string, options?: ListItemsSearchOptions) => Promise<ApiResponse<ListItemsPage>>;
+
+interface UseLookupSearchProps {
+  enabled: boolean;
+  searchListItems?: SearchListItems;
+  listName: string;
+  listUrl?: string;
+  lookupField: string;
+  lookupValueField: string;
+  operator?: 'startswith' | 'substringof';
+  filter?: string;
+  pageSize?: number;
+  selectedValues: any[];
+  failedMessage: string;
+}
+
+export const toLookupOption = (item: any, lookupField: string, lookupValueField: string): LookupOption => ({
+  key: String(item[lookupValueField] || item.Id || item.id),
+  text: item[lookupField] || item.Title || item.title || String(item[lookupValueField] || item.Id),
+});
+
+export const getLookupId = (value: any): string => {
+  return typeof value === 'object' && value.Id !== undefined ? String(value.Id) : String(value);
+};
+
+const getLookupText = (value: any, lookupField: string): string | undefined => {
+  return typeof value === 'object' ? value[lookupField] || value.Title : undefined;
+};
+
+/**
+ * Server-side search for FormLookup: pages of matching items from `searchListItems`,
+ * plus the display text of selected values that were saved without it
+ */
+export const useLookupSearch = ({
+  enabled,
+  searchListItems,
+  listName,
+  listUrl,
+  lookupField,
+  lookupValueField,
+  operator,
+  filter,
+  pageSize,
+  selectedValues,
+  failedMessage,
+}: UseLookupSearchProps) => {
+  const [searchText, setSearchText] = useState('');
+  // The first page loads when the menu first opens, not for every lookup on the form
+  const [isActive, setIsActive] = useState(false);
+  const [results, setResults] = useState<LookupOption[]>([]);
+  const [nextPageToken, setNextPageToken] = useState<string | undefined>(undefined);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [resolvedTexts, setResolvedTexts] = useState<Record<string, string>>({});
+  const requestRef = useRef(0);
+
+  const baseOptions = useMemo((): ListItemsSearchOptions => ({
+    searchField: lookupField,
+    operator,
+    filter,
+    top: pageSize,
+    select: [lookupValueField],
+  }), [lookupField, lookupValueField, operator, filter, pageSize]);
+
+  const runSearch = useCallback(async (text: string, pageToken?: string) => {
+    if (!searchListItems) {
+      setSearchError('searchListItems method is not available in API service. Please provide a valid API service with listUrl.');
+      return;
+    }
+
+    const request = ++requestRef.current;
+    setIsSearching(true);
+    setSearchError(null);
+    try {
+      const response = await searchListItems(listName, listUrl, { ...baseOptions, searchText: text, pageToken });
+      // A newer search or page superseded this one
+      if (request !== requestRef.current) {
+        return;
+      }
+      if (response.success && response.data) {
+        const page = response.data.items.map((item) => toLookupOption(item, lookupField, lookupValueField));
+        setResults((prev) => (pageToken ? [...prev, ...page] : page));
+        setNextPageToken(response.data.nextPageToken);
+      } else {
+        setSearchError(response.error || failedMessage);
+      }
+    } catch (error: any) {
+      if (request === requestRef.current) {
+        setSearchError(error.message || failedMessage);
+      }
+    } finally {
+      if (request === requestRef.current) {
+        setIsSearching(false);
+      }
+    }
+  }, [searchListItems, listName, listUrl, baseOptions, lookupField, lookupValueField, failedMessage]);
+
+  useEffect(() => {
+    if (!enabled || !isActive) {
+      return;
+    }
+    const timer = setTimeout(() => runSearch(searchText.trim()), SEARCH_DEBOUNCE);
+    return () => clearTimeout(timer);
+  }, [enabled, isActive, searchText, runSearch]);
+
+  const loadMore = useCallback(() => {
+    if (nextPageToken && !isSearching) {
+      runSearch(searchText.trim(), nextPageToken);
+    }
+  }, [nextPageToken, isSearching, searchText, runSearch]);
+
+  // Selected values saved without their display text (e.g. a bare ID) are looked up by ID
+  const unresolvedIds = useMemo(() => selectedValues
+    .filter((value) => !getLookupText(value, lookupField))
+    .map(getLookupId)
+    .filter((id) => !(id in resolvedTexts)), [selectedValues, lookupField, resolvedTexts]);
+  const unresolvedKey = unresolvedIds.join(',');
+
+  useEffect(() => {
+    if (!enabled || !searchListItems || unresolvedIds.length === 0) {
+      return;
+    }
+    let cancelled = false;
+    searchListItems(listName, listUrl, { ...baseOptions, ids: unresolvedIds })
+      .then((response) => {
+        if (cancelled || !response.success || !response.data) {
+          return;
+        }
+        const found: Record<string, string> = {};
+        response.data.items.forEach((item) => {
+          found[String(item.Id)] = toLookupOption(item, lookupField, lookupValueField).text;
+        });
+        // Items deleted since they were selected keep showing their ID
+        unresolvedIds.forEach((id) => {
+          if (!(id in found)) {
+            found[id] = id;
+          }
+        });
+        setResolvedTexts((prev) => ({ ...prev, ...found }));
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, searchListItems, listName, listUrl, baseOptions, unresolvedKey]);
+
+  const options = useMemo(() => {
+    const merged: LookupOption[] = selectedValues.map((value) => {
+      const id = getLookupId(value);
+      return { key: id, text: getLookupText(value, lookupField) || resolvedTexts[id] || id };
+    });
+    results.forEach((option) => {
+      if (!merged.some((existing) => existing.key === option.key)) {
+        merged.push(option);
+      }
+    });
+    return merged;
+  }, [selectedValues, results, resolvedTexts, lookupField]);
+
+  const activate = useCallback(() => setIsActive(true), []);
+
+  return {
+    options,
+    isSearching,
+    searchError,
+    hasMore: !!nextPageToken,
+    setSearchText,
+    activate,
+    loadMore,
+  };
+};
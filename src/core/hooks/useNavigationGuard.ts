@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { UnsavedChangesGuardOptions } from '../../types';
+import { en } from '../../locales/en';
+
+interface UseNavigationGuardProps extends UnsavedChangesGuardOptions {
+  isDirty: boolean;
+}
+
+const isInPageNavigation = (url: URL): boolean => {
+  const { location } = window;
+  return url.origin === location.origin && url.pathname === location.pathname && url.search === location.search && !!url.hash;
+};
+
+export const useNavigationGuard = ({
+  enabled = true,
+  isDirty,
+  message = en.unsavedChanges,
+  confirm,
+  interceptLinks = true,
+}: UseNavigationGuardProps) => {
+  const latestRef = useRef({ isDirty, message, confirm });
+  latestRef.current = { isDirty, message, confirm };
+  // Set once the user agreed to leave, so beforeunload does not ask a second time
+  const allowLeaveRef = useRef(false);
+
+  const confirmNavigation = useCallback(async (): Promise<boolean> => {
+    const { isDirty: hasChanges, message: confirmMessage, confirm: confirmLeave } = latestRef.current;
+    if (!hasChanges) {
+      return true;
+    }
+
+    const confirmed = await (confirmLeave ? confirmLeave(confirmMessage) : window.confirm(confirmMessage));
+    allowLeaveRef.current = confirmed;
+    return confirmed;
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || !isDirty || typeof window === 'undefined') {
+      return;
+    }
+    allowLeaveRef.current = false;
+
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (allowLeaveRef.current) return;
+      e.preventDefault();
+      e.returnValue = message;
+      return message;
+    };
+
+    // Capture phase, so the click is stopped before SharePoint's page router handles it
+    const onLinkClick = (e: MouseEvent) => {
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+
+      const anchor = (e.target as Element | null)?.closest?.('a[href]') as HTMLAnchorElement | null;
+      if (!anchor || (anchor.target && anchor.target !== '_self') || anchor.hasAttribute('download')) return;
+
+      const url = new URL(anchor.href, window.location.href);
+      if (url.protocol === 'javascript:' || isInPageNavigation(url)) return;
+
+      e.preventDefault();
+      e.stopPropagation();
+      confirmNavigation().then((confirmed) => {
+        if (confirmed) {
+          window.location.assign(url.href);
+        }
+      });
+    };
+
+    window.addEventListener('beforeunload', onBeforeUnload);
+    if (interceptLinks) {
+      document.addEventListener('click', onLinkClick, true);
+    }
+
+    return () => {
+      window.removeEventListener('beforeunload', onBeforeUnload);
+      document.removeEventListener('click', onLinkClick, true);
+    };
+  }, [enabled, isDirty, message, interceptLinks, confirmNavigation]);
+
+  return confirmNavigation;
+};
@@ -0,0 +1,57 @@
+import React, { useCallback, useEffect, useReducer, useRef } from 'react';
+import { ReadableStore } from '../formStore';
+
+type Subscribe = (listener: () => void) => () => void;
+
+// React 16.8/17 (older SPFx versions) have no useSyncExternalStore; re-check the snapshot on every store update instead
+const useSubscriptionFallback = <T>(subscribe: Subscribe, getSnapshot: () => T): T => {
+  const value = getSnapshot();
+  const [, forceRender] = useReducer((count: number) => count + 1, 0);
+  const latestRef = useRef({ value, getSnapshot });
+  latestRef.current = { value, getSnapshot };
+
+  useEffect(() => {
+    const checkForUpdate = () => {
+      if (!Object.is(latestRef.current.getSnapshot(), latestRef.current.value)) {
+        forceRender();
+      }
+    };
+    checkForUpdate();
+    return subscribe(checkForUpdate);
+  }, [subscribe]);
+
+  return value;
+};
+
+const useSyncExternalStore: (subscribe: Subscribe, getSnapshot: () => any) => any =
+  (React as any).useSyncExternalStore || useSubscriptionFallback;
+
+interface SelectionCache<TState, TSelected> {
+  state: TState;
+  selector: (state: TState) => TSelected;
+  selected: TSelected;
+}
+
+export const useStoreSelector = <TState, TSelected>(
+  store: ReadableStore<TState>,
+  selector: (state: TState) => TSelected,
+  isEqual: (a: TSelected, b: TSelected) => boolean = Object.is
+): TSelected => {
+  const cacheRef = useRef<SelectionCache<TState, TSelected> | null>(null);
+
+  // Keep the previous selection when it is equal so derived objects do not trigger re-renders
+  const getSelection = useCallback((): TSelected => {
+    const state = store.getState();
+    const cached = cacheRef.current;
+    if (cached && cached.state === state && cached.selector === selector) {
+      return cached.selected;
+    }
+
+    const selected = selector(state);
+    const stable = cached && isEqual(cached.selected, selected) ? cached.selected : selected;
+    cacheRef.current = { state, selector, selected: stable };
+    return stable;
+  }, [store, selector, isEqual]);
+
+  return useSyncExternalStore(store.subscribe, getSelection);
+};
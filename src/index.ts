@@ -1,8 +1,17 @@
 // Core exports
 export { FormProvider, useFormContext, setGlobalFormContext, getGlobalFormContext, registerSharePointWeb } from './core/FormProvider';
-export { useForm, useField } from './core/hooks';
+export type { FormContextValue } from './core/FormProvider';
+export { getFormById, subscribeToForm, getRegisteredFormIds } from './core/formRegistry';
+export type { FormRegistryListener } from './core/formRegistry';
+export { useForm, useField, useFieldArray, useFormSelector, useDraft, useUnsavedChangesGuard, useFormMessages, useFormById } from './core/hooks';
+export { shallowEqual } from './core/formStore';
 export { withForm, FormConsumer } from './core/hoc';
 export type { WithFormProps } from './core/hoc';
+export { FORM_ERROR } from './utils/validation';
+export { parseSharePointError, mapSaveErrorsToFields } from './utils/saveErrors';
+export type { ParsedSaveError, SaveFieldError, SaveErrorType } from './utils/saveErrors';
+export { getItemETag } from './utils/concurrency';
+export { registerLocale, en as enMessages, vi as viMessages } from './locales';
 
 // Component exports
 export {
@@ -16,6 +25,14 @@ export {
   FormAttachmentPicker,
   FormCustomField,
   FormField,
+  FormFieldArray,
+  FormDisplayField,
+  DraftRestoreBar,
+  FormErrorSummary,
+  ConflictResolver,
+  FormWizard,
+  FormStep,
+  useFormWizard,
 } from './components';
 export type {
   FormTextFieldProps,
@@ -31,6 +48,15 @@ export type {
   AttachmentInfo,
   FormCustomFieldProps,
   FormFieldProps,
+  FormFieldArrayProps,
+  FormDisplayFieldProps,
+  DraftRestoreBarProps,
+  FormErrorSummaryProps,
+  ConflictResolverProps,
+  FormWizardProps,
+  FormStepProps,
+  FormWizardStep,
+  UseFormWizardReturn,
 } from './components';
 
 // Type exports
@@ -38,22 +64,75 @@ export type {
   FieldType,
   SharePointFieldType,
   SharePointFieldMetadata,
+  FieldPath,
+  FieldPathValue,
   ValidationRule,
+  ValidationMessageKey,
+  FormMessages,
+  UseFormMessagesReturn,
+  ValidationSchema,
+  AsyncValidationContext,
+  FieldRule,
+  FieldRuleCondition,
+  FieldRules,
+  ComputedField,
+  ComputedFieldConfig,
+  ComputedFields,
+  FieldTransform,
+  FieldTransforms,
+  FieldRuleState,
   FieldError,
   FormFieldConfig,
   FormState,
   FormErrors,
   FormTouched,
   FormConfig,
+  FormMode,
   CustomFieldRenderProps,
   SharePointListConfig,
+  ChildCollectionConfig,
+  ListItemsQueryOptions,
   UseFormReturn,
+  SubmitStatus,
+  SubmitResult,
   UseFieldReturn,
+  FieldIds,
+  UseFieldArrayReturn,
+  FieldArrayItem,
+  DraftConfig,
+  DraftStorage,
+  FormDraft,
+  UseDraftReturn,
+  UnsavedChangesGuardOptions,
+  UseUnsavedChangesGuardReturn,
   ApiResponse,
+  UpdateItemOptions,
+  ConflictField,
+  SaveConflict,
+  ConflictResolution,
+  BatchOperation,
+  SaveOperation,
+  SaveOperationResult,
+  RequestKind,
+  RetryEvent,
+  RetryPolicy,
+  ListInfo,
+  ListItemsSearchOptions,
+  ListItemsPage,
+  CacheResource,
+  CacheEntry,
+  CacheStore,
+  CacheConfig,
+  CacheLoadOptions,
+  CacheService,
 } from './types';
 
 // Service exports
 export { createSpfxApiService as createSpfxApiServiceFromPnp, createSpfxRestApiService } from './services/spfxApiService';
+export { createDraftStorage } from './services/draftStorage';
+export { withRequestPolicy, withRetry, parseRetryAfter } from './services/requestPolicy';
+export { createCacheService, createMemoryCacheStore, createSessionStorageCacheStore, cacheKey, getListVersion } from './services/cacheService';
+export type { ListVersion } from './services/cacheService';
 
 // Import styles
 import './styles.css';
@@ -0,0 +1,60 @@
+import { FormMessages } from '../types';
+
+export const en: FormMessages = {
+  required: 'This field is required',
+  email: 'Please enter a valid email address',
+  pattern: 'Please enter a valid value',
+  minLength: 'Minimum length is {minLength} characters',
+  maxLength: 'Maximum length is {maxLength} characters',
+  min: 'Minimum value is {min}',
+  max: 'Maximum value is {max}',
+  loading: 'Loading...',
+  loadingField: 'Loading {field}...',
+  loadingOptions: 'Loading options...',
+  selectOption: 'Select option',
+  selectOptions: 'Select options',
+  selectFromList: 'Select {list}',
+  failedToLoadOptions: 'Failed to load options',
+  searchList: 'Search {list}',
+  loadMore: 'Load more',
+  failedToLoadFieldMetadata: 'Failed to load field metadata',
+  suggestedPeople: 'Suggested People',
+  noResultsFound: 'No results found',
+  peoplePickerPlaceholder: 'Type a name or email',
+  peoplePickerLabel: 'People picker',
+  remove: 'Remove',
+  attachFile: 'Attach file',
+  uploading: 'Uploading...',
+  uploadFailed: 'Failed to upload file',
+  fileTooLarge: 'File "{fileName}" exceeds maximum size of {maxSize}MB',
+  fileTypeNotAllowed: 'File "{fileName}" is not allowed. Allowed types: {allowedTypes}',
+  maxFilesExceeded: 'Maximum {maxFiles} file(s) allowed',
+  fileCount: '{count} file(s)',
+  fileCountOfMax: '{count}/{maxFiles} files',
+  maxFileSize: 'Max {maxSize}MB per file',
+  openFileInNewTab: 'Click to open {fileName} in new tab',
+  noAttachments: 'No attachments. Click the attach button to add files.',
+  draftFound: 'You have unsaved changes from a previous session.',
+  draftFoundAt: 'You have unsaved changes from {savedAt}.',
+  restoreDraft: 'Restore',
+  discardDraft: 'Discard',
+  unsavedChanges: 'You have unsaved changes. Are you sure you want to leave this page?',
+  wizardBack: 'Back',
+  wizardNext: 'Next',
+  wizardSubmit: 'Submit',
+  yes: 'Yes',
+  no: 'No',
+  errorSummaryTitle: 'Please fix the following errors:',
+  formHasErrors: 'The form has {count} error(s). Please fix them and try again.',
+  saveSucceeded: 'Saved successfully',
+  saveFailed: 'Save failed: {error}',
+  invalidValue: 'The value is not valid for this field',
+  asyncValidationFailed: 'This value could not be checked. Please try again.',
+  conflictTitle: 'This item was changed by someone else',
+  conflictDescription: 'Choose which value to keep for each field you changed, then save again.',
+  conflictMine: 'Your value',
+  conflictTheirs: 'Current value',
+  conflictChangedOnServer: 'Also changed by the other person',
+  conflictSave: 'Save',
+  conflictCancel: 'Cancel',
+};
@@ -0,0 +1,45 @@
+import { FormMessages } from '../types';
+import { en } from './en';
+import { vi } from './vi';
+
+export const DEFAULT_LOCALE = 'en';
+
+const catalogs: Record<string, FormMessages> = { en, vi };
+
+/**
+ * Add or replace a catalog so forms can use it through `config.locale`.
+ * Missing strings fall back to English.
+ */
+export const registerLocale = (locale: string, messages: Partial<FormMessages>) => {
+  catalogs[locale.toLowerCase()] = { ...en, ...messages };
+};
+
+// SharePoint pages expose the user's UI language (e.g. 'vi-VN'); outside SharePoint use the browser's
+const getDefaultLocale = (): string => {
+  const pageContext = typeof window !== 'undefined' ? (window as any)._spPageContextInfo : undefined;
+  if (pageContext?.currentUICultureName) {
+    return pageContext.currentUICultureName;
+  }
+  return typeof navigator !== 'undefined' && navigator.language ? navigator.language : DEFAULT_LOCALE;
+};
+
+/**
+ * Pick the catalog for a locale, trying the full tag ('vi-vn') before the language ('vi') and then English.
+ * The returned locale is the requested tag, for formatting dates and numbers.
+ */
+export const resolveMessages = (
+  locale?: string,
+  overrides?: Partial<FormMessages>
+): { locale: string; messages: FormMessages } => {
+  const requested = locale || getDefaultLocale();
+  const tag = requested.toLowerCase();
+  const language = tag.split('-')[0];
+  const messages = catalogs[tag] || catalogs[language] || catalogs[DEFAULT_LOCALE];
+
+  return {
+    locale: requested,
+    messages: overrides ? { ...messages, ...overrides } : messages,
+  };
+};
+
+export { en, vi };
@@ -0,0 +1,60 @@
+import { FormMessages } from '../types';
+
+export const vi: FormMessages = {
+  required: 'Trường này là bắt buộc',
+  email: 'Vui lòng nhập địa chỉ email hợp lệ',
+  pattern: 'Vui lòng nhập giá trị hợp lệ',
+  minLength: 'Độ dài tối thiểu là {minLength} ký tự',
+  maxLength: 'Độ dài tối đa là {maxLength} ký tự',
+  min: 'Giá trị tối thiểu là {min}',
+  max: 'Giá trị tối đa là {max}',
+  loading: 'Đang tải...',
+  loadingField: 'Đang tải {field}...',
+  loadingOptions: 'Đang tải các lựa chọn...',
+  selectOption: 'Chọn một mục',
+  selectOptions: 'Chọn các mục',
+  selectFromList: 'Chọn {list}',
+  failedToLoadOptions: 'Không thể tải các lựa chọn',
+  searchList: 'Tìm trong {list}',
+  loadMore: 'Tải thêm',
+  failedToLoadFieldMetadata: 'Không thể tải thông tin trường',
+  suggestedPeople: 'Người được gợi ý',
+  noResultsFound: 'Không tìm thấy kết quả',
+  peoplePickerPlaceholder: 'Nhập tên hoặc email',
+  peoplePickerLabel: 'Chọn người',
+  remove: 'Xóa',
+  attachFile: 'Đính kèm tệp',
+  uploading: 'Đang tải lên...',
+  uploadFailed: 'Không thể tải tệp lên',
+  fileTooLarge: 'Tệp "{fileName}" vượt quá dung lượng tối đa {maxSize}MB',
+  fileTypeNotAllowed: 'Tệp "{fileName}" không được phép. Các loại tệp được phép: {allowedTypes}',
+  maxFilesExceeded: 'Chỉ cho phép tối đa {maxFiles} tệp',
+  fileCount: '{count} tệp',
+  fileCountOfMax: '{count}/{maxFiles} tệp',
+  maxFileSize: 'Tối đa {maxSize}MB mỗi tệp',
+  openFileInNewTab: 'Nhấn để mở {fileName} trong tab mới',
+  noAttachments: 'Chưa có tệp đính kèm. Nhấn nút đính kèm để thêm tệp.',
+  draftFound: 'Bạn có thay đổi chưa lưu từ phiên làm việc trước.',
+  draftFoundAt: 'Bạn có thay đổi chưa lưu từ {savedAt}.',
+  restoreDraft: 'Khôi phục',
+  discardDraft: 'Bỏ qua',
+  unsavedChanges: 'Bạn có thay đổi chưa lưu. Bạn có chắc chắn muốn rời khỏi trang này?',
+  wizardBack: 'Quay lại',
+  wizardNext: 'Tiếp theo',
+  wizardSubmit: 'Gửi',
+  yes: 'Có',
+  no: 'Không',
+  errorSummaryTitle: 'Vui lòng sửa các lỗi sau:',
+  formHasErrors: 'Biểu mẫu có {count} lỗi. Vui lòng sửa và thử lại.',
+  saveSucceeded: 'Đã lưu thành công',
+  saveFailed: 'Lưu thất bại: {error}',
+  invalidValue: 'Giá trị không hợp lệ cho trường này',
+  asyncValidationFailed: 'Không thể kiểm tra giá trị này. Vui lòng thử lại.',
+  conflictTitle: 'Mục này đã được người khác thay đổi',
+  conflictDescription: 'Chọn giá trị muốn giữ cho từng trường bạn đã thay đổi, sau đó lưu lại.',
+  conflictMine: 'Giá trị của bạn',
+  conflictTheirs: 'Giá trị hiện tại',
+  conflictChangedOnServer: 'Người kia cũng đã thay đổi',
+  conflictSave: 'Lưu',
+  conflictCancel: 'Hủy',
+};
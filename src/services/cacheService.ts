@@ -0,0 +1,191 @@
+import { ApiResponse, CacheConfig, CacheEntry, CacheLoadOptions, CacheResource, CacheService, CacheStore, ListInfo } from '../types';
+
+const SESSION_STORAGE_PREFIX = 'spfx-form-cache:';
+
+const DEFAULT_TTL: Record<CacheResource, number> = {
+  fieldMetadata: 30 * 60 * 1000,
+  lookupItems: 5 * 60 * 1000,
+  listInfo: 30 * 1000,
+};
+
+export interface ListVersion {
+  items?: string; // Changes with every added, edited or deleted item
+  schema?: string; // Changes when columns are added or edited
+}
+
+export const createMemoryCacheStore = (): CacheStore => {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    get: (key: string) => entries.get(key),
+    set: (key: string, entry: CacheEntry) => {
+      entries.set(key, entry);
+    },
+    remove: (key: string) => {
+      entries.delete(key);
+    },
+    keys: () => Array.from(entries.keys()),
+  };
+};
+
+// Entries outlive a page reload but not the browser tab
+export const createSessionStorageCacheStore = (): CacheStore => ({
+  get: (key: string) => {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_PREFIX + key);
+    return stored ? (JSON.parse(stored) as CacheEntry) : undefined;
+  },
+  set: (key: string, entry: CacheEntry) => {
+    try {
+      sessionStorage.setItem(SESSION_STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      // Quota exceeded: the value is simply not cached
+    }
+  },
+  remove: (key: string) => {
+    sessionStorage.removeItem(SESSION_STORAGE_PREFIX + key);
+  },
+  keys: () => {
+    const keys: string[] = [];
+    for (let i = 0; i < sessionStorage.length; i++) {
+      const key = sessionStorage.key(i);
+      if (key && key.indexOf(SESSION_STORAGE_PREFIX) === 0) {
+        keys.push(key.substring(SESSION_STORAGE_PREFIX.length));
+      }
+    }
+    return keys;
+  },
+});
+
+let sharedMemoryStore: CacheStore | null = null;
+
+const resolveStore = (storage?: CacheConfig['storage']): CacheStore => {
+  if (storage && typeof storage === 'object') {
+    return storage;
+  }
+  if (storage === 'sessionStorage' && typeof sessionStorage !== 'undefined') {
+    return createSessionStorageCacheStore();
+  }
+  if (!sharedMemoryStore) {
+    sharedMemoryStore = createMemoryCacheStore();
+  }
+  return sharedMemoryStore;
+};
+
+/**
+ * Cache key from its parts, e.g. `cacheKey(listUrl, listName, fieldName)`
+ */
+export const cacheKey = (...parts: Array<string | number | undefined>): string => {
+  return parts.map((part) => (part === undefined ? '' : String(part))).join('|');
+};
+
+const createPassThroughCache = (): CacheService => ({
+  getOrLoad: (_resource, _key, load) => load(),
+  invalidate: () => undefined,
+  checkListVersion: false,
+});
+
+/**
+ * Cache for SharePoint reads that rarely change: field metadata, lookup options and list versions
+ *
+ * @example
+ * ```ts
+ * const cache = createCacheService({ storage: 'sessionStorage', ttl: { lookupItems: 60000 } });
+ * const response = await cache.getOrLoad('lookupItems', cacheKey(listUrl, 'Categories'),
+ *   () => apiService.getListItems('Categories', listUrl), { shouldCache: (r) => r.success });
+ * ```
+ */
+export const createCacheService = (config?: CacheConfig | false): CacheService => {
+  if (config === false) {
+    return createPassThroughCache();
+  }
+
+  const store = resolveStore(config?.storage);
+  const ttl = { ...DEFAULT_TTL, ...config?.ttl };
+  const inFlight = new Map<string, Promise<any>>();
+
+  const getOrLoad = <T>(resource: CacheResource, key: string, load: () => Promise<T>, options: CacheLoadOptions<T> = {}): Promise<T> => {
+    const fullKey = `${resource}:${key}`;
+    const entry = store.get(fullKey);
+    if (entry && entry.expires > Date.now() && (options.version === undefined || entry.version === options.version)) {
+      return Promise.resolve(entry.value as T);
+    }
+
+    const pending = inFlight.get(fullKey);
+    if (pending) {
+      return pending;
+    }
+
+    const request = load().then(
+      (value) => {
+        inFlight.delete(fullKey);
+        if (!options.shouldCache || options.shouldCache(value)) {
+          store.set(fullKey, { value, expires: Date.now() + ttl[resource], version: options.version });
+        }
+        return value;
+      },
+      (error) => {
+        inFlight.delete(fullKey);
+        throw error;
+      }
+    );
+    inFlight.set(fullKey, request);
+    return request;
+  };
+
+  const invalidate = (resource?: CacheResource, key?: string) => {
+    const prefix = resource ? (key !== undefined ? `${resource}:${key}` : `${resource}:`) : '';
+    store.keys().forEach((storedKey) => {
+      if (resource && key !== undefined ? storedKey === prefix : storedKey.indexOf(prefix) === 0) {
+        store.remove(storedKey);
+      }
+    });
+  };
+
+  return {
+    getOrLoad,
+    invalidate,
+    checkListVersion: config?.checkListVersion !== false,
+  };
+};
+
+const isSuccess = (response: ApiResponse<any>) => response.success;
+
+/**
+ * Current version of a list, shared through the cache so the fields of a form cost one request
+ * Resolves to undefined when version checks are off or the service cannot report it
+ */
+export const getListVersion = async (
+  cache: CacheService,
+  listName: string,
+  listUrl: string | undefined,
+  getListInfo?: (listName: string, listUrl?: string) => Promise<ApiResponse<ListInfo>>
+): Promise<ListVersion | undefined> => {
+  if (!cache.checkListVersion || !getListInfo) {
+    return undefined;
+  }
+  try {
+    const response = await cache.getOrLoad('listInfo', cacheKey(listUrl, listName), () => getListInfo(listName, listUrl), { shouldCache: isSuccess });
+    if (!response.success || !response.data) {
+      return undefined;
+    }
+    const { LastItemModifiedDate, LastItemDeletedDate, SchemaVersion } = response.data;
+    return {
+      items: LastItemModifiedDate || LastItemDeletedDate ? cacheKey(LastItemModifiedDate, LastItemDeletedDate) : undefined,
+      schema: SchemaVersion !== undefined && SchemaVersion !== null ? String(SchemaVersion) : undefined,
+    };
+  } catch (error) {
+    return undefined;
+  }
+};
+
+/**
+ * Load through the cache, keeping only successful API responses
+ */
+export const getCachedResponse = <T>(
+  cache: CacheService,
+  resource: CacheResource,
+  key: string,
+  load: () => Promise<ApiResponse<T>>,
+  version?: string
+): Promise<ApiResponse<T>> => {
+  return cache.getOrLoad(resource, key, load, { version, shouldCache: isSuccess });
+};
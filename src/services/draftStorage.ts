@@ -0,0 +1,134 @@
+import { DraftStorage, FormDraft } from '../types';
+
+const DB_NAME = 'spfx-form-drafts';
+const STORE_NAME = 'drafts';
+const LOCAL_STORAGE_PREFIX = 'spfx-form-draft:';
+const FILE_MARKER = '__draftFile';
+const DATE_MARKER = '__draftDate';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// IndexedDB stores File/Blob and Date values as-is via structured clone
+export const createIndexedDbDraftStorage = (): DraftStorage => ({
+  load: async (key: string) => (await runTransaction<FormDraft | undefined>('readonly', (store) => store.get(key))) || null,
+  save: async (key: string, draft: FormDraft) => {
+    await runTransaction('readwrite', (store) => store.put(draft, key));
+  },
+  remove: async (key: string) => {
+    await runTransaction('readwrite', (store) => store.delete(key));
+  },
+});
+
+const readAsDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+const dataUrlToFile = (dataUrl: string, name: string, type: string, lastModified?: number): File => {
+  const binary = atob(dataUrl.substring(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new File([bytes], name, { type, lastModified });
+};
+
+// JSON cannot hold files or dates, so they are tagged before stringify and rebuilt after parse
+const encodeValue = async (value: any): Promise<any> => {
+  if (typeof Blob !== 'undefined' && value instanceof Blob) {
+    const file = value as File;
+    return { [FILE_MARKER]: true, name: file.name || 'file', type: value.type, lastModified: file.lastModified, dataUrl: await readAsDataUrl(value) };
+  }
+  if (value instanceof Date) {
+    return { [DATE_MARKER]: value.toISOString() };
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(encodeValue));
+  }
+  if (value && typeof value === 'object') {
+    const encoded: any = {};
+    await Promise.all(Object.keys(value).map(async (key) => {
+      encoded[key] = await encodeValue(value[key]);
+    }));
+    return encoded;
+  }
+  return value;
+};
+
+const decodeValue = (value: any): any => {
+  if (Array.isArray(value)) {
+    return value.map(decodeValue);
+  }
+  if (value && typeof value === 'object') {
+    if (value[FILE_MARKER]) {
+      return dataUrlToFile(value.dataUrl, value.name, value.type, value.lastModified);
+    }
+    if (value[DATE_MARKER]) {
+      return new Date(value[DATE_MARKER]);
+    }
+    const decoded: any = {};
+    Object.keys(value).forEach((key) => {
+      decoded[key] = decodeValue(value[key]);
+    });
+    return decoded;
+  }
+  return value;
+};
+
+export const createLocalStorageDraftStorage = (): DraftStorage => ({
+  load: async (key: string) => {
+    const stored = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+    return stored ? (decodeValue(JSON.parse(stored)) as FormDraft) : null;
+  },
+  save: async (key: string, draft: FormDraft) => {
+    localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(await encodeValue(draft)));
+  },
+  remove: async (key: string) => {
+    localStorage.removeItem(LOCAL_STORAGE_PREFIX + key);
+  },
+});
+
+export const createDraftStorage = (storage?: 'indexedDB' | 'localStorage' | DraftStorage): DraftStorage => {
+  if (storage && typeof storage === 'object') {
+    return storage;
+  }
+  if (storage !== 'localStorage' && typeof indexedDB !== 'undefined') {
+    return createIndexedDbDraftStorage();
+  }
+  return createLocalStorageDraftStorage();
+};
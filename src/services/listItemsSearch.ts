@@ -0,0 +1,53 @@
+import { ListItemsSearchOptions } from '../types';
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 50;
+
+// Page size getListItems asks for when it reads a whole list; SharePoint returns 100 items a page otherwise
+export const LIST_ITEMS_PAGE_SIZE = 2000;
+
+// Link to the next page of a REST collection response, verbose or nometadata
+export const getNextLink = (data: any): string | undefined => data?.d?.__next || data?.['odata.nextLink'] || undefined;
+
+// Single quotes are doubled inside OData string literals, e.g. `getByFileName('it''s.pdf')`
+export const escapeODataString = (value: string): string => value.replace(/'/g, "''");
+
+const toODataString = (value: string) => `'${escapeODataString(value)}'`;
+
+/**
+ * $filter for searchListItems: the caller's filter first, then the ID list or the text match
+ */
+export const buildSearchFilter = (options: ListItemsSearchOptions = {}): string | undefined => {
+  const parts: string[] = [];
+  if (options.filter) {
+    parts.push(`(${options.filter})`);
+  }
+  if (options.ids) {
+    parts.push(`(${options.ids.map((id) => `Id eq ${Number(id)}`).join(' or ')})`);
+  } else if (options.searchText) {
+    const field = options.searchField || 'Title';
+    const text = toODataString(options.searchText);
+    parts.push(options.operator === 'substringof' ? `substringof(${text},${field})` : `startswith(${field},${text})`);
+  }
+  return parts.length > 0 ? parts.join(' and ') : undefined;
+};
+
+export const getSearchSelect = (options: ListItemsSearchOptions = {}): string[] => {
+  const select = ['Id', options.searchField || 'Title', ...(options.select || [])];
+  return select.filter((field, index) => select.indexOf(field) === index);
+};
+
+export const getSearchPageSize = (options: ListItemsSearchOptions = {}): number => {
+  return options.ids ? Math.max(options.ids.length, 1) : options.top || DEFAULT_SEARCH_PAGE_SIZE;
+};
+
+/**
+ * Items are ordered by Id, so the last Id of a full page is where the next one starts
+ * (`$skiptoken=Paged=TRUE&p_ID=<token>`)
+ */
+export const getNextPageToken = (items: any[], options: ListItemsSearchOptions = {}): string | undefined => {
+  if (options.ids || items.length < getSearchPageSize(options)) {
+    return undefined;
+  }
+  const last = items[items.length - 1];
+  return last && last.Id !== undefined ? String(last.Id) : undefined;
+};
@@ -0,0 +1,224 @@
+import { ApiResponse, BatchOperation, RequestKind, RetryPolicy, SaveOperationResult } from '../types';
+
+const DEFAULT_MAX_ATTEMPTS: Record<RequestKind, number> = {
+  read: 4,
+  create: 3,
+  update: 3,
+  delete: 3,
+  upload: 3,
+  batch: 3,
+};
+
+const THROTTLED_STATUSES = [429, 503];
+
+// Kind of each operation inside a $batch, for deciding which throttled ones can be resent
+const OPERATION_KINDS: Record<BatchOperation['type'], RequestKind> = {
+  getItem: 'read',
+  addItem: 'create',
+  updateItem: 'update',
+  deleteItem: 'delete',
+  deleteFile: 'delete',
+};
+
+// PnP v1 retries a 429 itself and then rejects with a plain Error naming the last status
+const PNP_RETRIES_EXCEEDED = /^Retry count exceeded \(\d+\) for request\. Response status: \[(\d+)\]/;
+const IDEMPOTENT_KINDS: RequestKind[] = ['read', 'update', 'delete'];
+
+// API service methods the policy wraps; anything else on a custom service is passed through untouched
+const METHOD_KINDS: Record<string, RequestKind> = {
+  getItem: 'read',
+  getListItems: 'read',
+  searchListItems: 'read',
+  getFieldMetadata: 'read',
+  getListFields: 'read',
+  searchUsers: 'read',
+  getUserById: 'read',
+  getAttachmentFiles: 'read',
+  getListInfo: 'read',
+  addItem: 'create',
+  updateItem: 'update',
+  deleteItem: 'delete',
+  deleteFile: 'delete',
+  uploadFile: 'upload',
+  batch: 'batch',
+};
+
+/**
+ * Retry-After in seconds; the header holds either seconds or an HTTP date
+ */
+export const parseRetryAfter = (value?: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+};
+
+// PnP errors keep the fetch Response they failed on
+export const getRetryAfter = (error: any): number | undefined => {
+  return parseRetryAfter(error?.response?.headers?.get?.('Retry-After'));
+};
+
+/**
+ * HTTP status of a failed PnP request, including a 429 PnP gave up retrying
+ */
+export const getErrorStatus = (error: any): number => {
+  if (error?.status) {
+    return error.status;
+  }
+  const exceeded = PNP_RETRIES_EXCEEDED.exec(error?.message || '');
+  return exceeded ? Number(exceeded[1]) : 500;
+};
+
+const isRetryable = (kind: RequestKind, response: { statusCode?: number; retryAfter?: number }): boolean => {
+  if (!response.statusCode || !THROTTLED_STATUSES.includes(response.statusCode)) {
+    return false;
+  }
+  if (IDEMPOTENT_KINDS.includes(kind)) {
+    return true;
+  }
+  // A 429, or a 503 with Retry-After, is SharePoint refusing the request before running it, so resending cannot create twice
+  return response.statusCode === 429 || response.retryAfter !== undefined;
+};
+
+// Equal jitter: half of the backoff is fixed, half random, so clients throttled together do not come back together
+const getBackoffDelay = (attempt: number, baseDelay: number, maxDelay: number): number => {
+  const backoff = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+const getRetryDelay = (retryAfter: number | undefined, attempt: number, baseDelay: number, maxDelay: number): number => {
+  return retryAfter !== undefined ? retryAfter * 1000 : getBackoffDelay(attempt, baseDelay, maxDelay);
+};
+
+const wait = (delay: number) => new Promise((resolve) => setTimeout(resolve, delay));
+
+/**
+ * Run a request, retrying while SharePoint throttles it
+ */
+export const withRetry = async <T>(
+  operation: string,
+  kind: RequestKind,
+  request: () => Promise<ApiResponse<T>>,
+  policy: RetryPolicy | false = {}
+): Promise<ApiResponse<T>> => {
+  if (policy === false) {
+    return request();
+  }
+
+  const maxAttempts = policy.maxAttempts?.[kind] ?? DEFAULT_MAX_ATTEMPTS[kind];
+  const baseDelay = policy.baseDelay ?? 500;
+  const maxDelay = policy.maxDelay ?? 30000;
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await request();
+    if (response.success || attempt >= maxAttempts || !isRetryable(kind, response)) {
+      return response;
+    }
+
+    const delay = getRetryDelay(response.retryAfter, attempt, baseDelay, maxDelay);
+    if (delay > maxDelay) {
+      return response;
+    }
+
+    if (policy.onRetry) {
+      policy.onRetry({ operation, kind, attempt, maxAttempts, delay, statusCode: response.statusCode, error: response.error });
+    }
+    await wait(delay);
+  }
+};
+
+/**
+ * Run a $batch with withRetry, then resend the operations SharePoint throttled inside it:
+ * the batch itself answers 200 while single operations in it get 429
+ * Reads after the first throttled operation go along, so they see the writes they followed
+ */
+export const withBatchRetry = async (
+  batch: (operations: BatchOperation[], listUrl?: string) => Promise<ApiResponse<SaveOperationResult[]>>,
+  operations: BatchOperation[],
+  listUrl: string | undefined,
+  policy: RetryPolicy | false = {}
+): Promise<ApiResponse<SaveOperationResult[]>> => {
+  const response = await withRetry('batch', 'batch', () => batch(operations, listUrl), policy);
+  if (policy === false || !response.success || !response.data) {
+    return response;
+  }
+
+  const maxAttempts = policy.maxAttempts?.batch ?? DEFAULT_MAX_ATTEMPTS.batch;
+  const baseDelay = policy.baseDelay ?? 500;
+  const maxDelay = policy.maxDelay ?? 30000;
+  const results = [...response.data];
+
+  for (let attempt = 1; attempt < maxAttempts; attempt++) {
+    const throttled = results
+      .map((_result, index) => index)
+      .filter((index) => !results[index].success && isRetryable(OPERATION_KINDS[operations[index].type], results[index]));
+    if (throttled.length === 0) {
+      break;
+    }
+    const resend = results
+      .map((_result, index) => index)
+      .filter((index) => throttled.includes(index) || (index > throttled[0] && operations[index].type === 'getItem'));
+
+    const retryAfters = throttled.map((index) => results[index].retryAfter).filter((value): value is number => value !== undefined);
+    const delay = getRetryDelay(retryAfters.length > 0 ? Math.max(...retryAfters) : undefined, attempt, baseDelay, maxDelay);
+    if (delay > maxDelay) {
+      break;
+    }
+
+    const first = results[throttled[0]];
+    if (policy.onRetry) {
+      policy.onRetry({ operation: 'batch', kind: 'batch', attempt, maxAttempts, delay, statusCode: first.statusCode, error: first.error });
+    }
+    await wait(delay);
+
+    const retried = await batch(resend.map((index) => operations[index]), listUrl);
+    if (!retried.success || !retried.data) {
+      break;
+    }
+    resend.forEach((index, position) => {
+      results[index] = retried.data![position];
+    });
+  }
+
+  return { ...response, data: results };
+};
+
+/**
+ * Wrap the API service methods with withRetry
+ * Pass a function to read the policy on every request (FormProvider does, so config changes apply without a new service)
+ *
+ * @example
+ * ```ts
+ * const apiService = withRequestPolicy(createSpfxRestApiService(context), {
+ *   maxAttempts: { read: 5 },
+ *   onRetry: (event) => console.warn(`${event.operation} throttled, retrying in ${event.delay}ms`),
+ * });
+ * ```
+ */
+export const withRequestPolicy = <TService extends Record<string, any>>(
+  service: TService,
+  policy: RetryPolicy | false | (() => RetryPolicy | false | undefined) = {}
+): TService => {
+  const wrapped: Record<string, any> = { ...service };
+  const getPolicy = () => (typeof policy === 'function' ? policy() : policy) ?? {};
+  Object.keys(METHOD_KINDS).forEach((name) => {
+    const method = service[name];
+    if (name === 'batch' && typeof method === 'function') {
+      wrapped.batch = (operations: BatchOperation[], listUrl?: string) =>
+        withBatchRetry((ops, url) => method.call(service, ops, url), operations, listUrl, getPolicy());
+    } else if (typeof method === 'function') {
+      wrapped[name] = (...args: any[]) => withRetry(
+        name,
+        METHOD_KINDS[name],
+        () => method.apply(service, args),
+        getPolicy()
+      );
+    }
+  });
+  return wrapped as TService;
+};
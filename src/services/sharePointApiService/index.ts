@@ -2,7 +2,9 @@ import {
   createGetItemMethod,
   createAddItemMethod,
   createUpdateItemMethod,
+  createDeleteItemMethod,
   createGetListItemsMethod,
+  createSearchListItemsMethod,
   createUploadFileMethod,
   createDeleteFileMethod,
   createGetFieldMetadataMethod,
@@ -10,7 +12,10 @@ import {
   createSearchUsersMethod,
   createGetUserByIdMethod,
   createGetAttachmentFilesMethod,
+  createGetListInfoMethod,
+  createBatchMethod,
 } from './methods';
+import { CacheService } from '../../types';
 
 let registeredWebClass: any = null;
 
@@ -20,7 +25,8 @@ export const registerSharePointWeb = (WebClass: any) => {
 
 export const createSharePointApiService = (
   baseUrl: string,
-  getFieldNames?: () => string[]
+  getFieldNames?: () => string[],
+  cache?: CacheService
 ) => {
   if (!baseUrl) {
     return null;
@@ -50,10 +56,12 @@ export const createSharePointApiService = (
     (!!(window as any)._spPageContextInfo || window.location.href.includes('sharepoint.com'));
 
   return {
-    getItem: createGetItemMethod(WebClass, baseUrl, isLocal, isInSharePoint, getFieldNames),
+    getItem: createGetItemMethod(WebClass, baseUrl, isLocal, isInSharePoint, getFieldNames, cache),
     addItem: createAddItemMethod(WebClass, baseUrl, isLocal, isInSharePoint),
     updateItem: createUpdateItemMethod(WebClass, baseUrl, isLocal, isInSharePoint),
+    deleteItem: createDeleteItemMethod(WebClass, baseUrl, isLocal, isInSharePoint),
     getListItems: createGetListItemsMethod(WebClass, baseUrl, isLocal, isInSharePoint),
+    searchListItems: createSearchListItemsMethod(WebClass, baseUrl, isLocal, isInSharePoint),
     uploadFile: createUploadFileMethod(WebClass, baseUrl, isLocal, isInSharePoint),
     deleteFile: createDeleteFileMethod(WebClass, baseUrl, isLocal, isInSharePoint),
     getFieldMetadata: createGetFieldMetadataMethod(WebClass, baseUrl, isLocal, isInSharePoint),
@@ -61,6 +69,8 @@ export const createSharePointApiService = (
     searchUsers: createSearchUsersMethod(WebClass, baseUrl, isLocal, isInSharePoint),
     getUserById: createGetUserByIdMethod(WebClass, baseUrl, isLocal, isInSharePoint),
     getAttachmentFiles: createGetAttachmentFilesMethod(WebClass, baseUrl, isLocal, isInSharePoint),
+    getListInfo: createGetListInfoMethod(WebClass, baseUrl, isLocal, isInSharePoint),
+    batch: createBatchMethod(WebClass, baseUrl, isLocal, isInSharePoint),
   };
 };
 
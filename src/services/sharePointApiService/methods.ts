@@ -1,13 +1,39 @@
-import { ApiResponse, SharePointFieldMetadata } from '../../types';
+import { ApiResponse, SharePointFieldMetadata, ListItemsQueryOptions, UpdateItemOptions, BatchOperation, SaveOperationResult, CacheService, ListInfo, ListItemsSearchOptions, ListItemsPage } from '../../types';
 import { getWebUrl, normalizeFieldType, isGuid } from './utils';
+import { getRetryAfter, getErrorStatus } from '../requestPolicy';
+import { cacheKey, getListVersion } from '../cacheService';
+import { buildSearchFilter, getSearchSelect, getSearchPageSize, getNextPageToken, LIST_ITEMS_PAGE_SIZE, escapeODataString } from '../listItemsSearch';
+
+type FieldKind = 'user' | 'lookup' | 'regular';
+
+// How getItem has to select a field: person and lookup fields are expanded
+const getFieldKind = (field: any): FieldKind => {
+  const fieldType = field.TypeAsString || field.Type || '';
+  const fieldTypeLower = fieldType.toLowerCase();
+
+  if (
+    field.PrincipalType !== undefined ||
+    fieldTypeLower.includes('user') ||
+    fieldTypeLower.includes('person')
+  ) {
+    return 'user';
+  }
+  if ((field.LookupListId || field.LookupList) && field['IsDependentLookup'] !== true) {
+    return 'lookup';
+  }
+  return 'regular';
+};
 
 export const createGetItemMethod = (
   WebClass: any,
   baseUrl: string,
   isLocal: boolean,
   isInSharePoint: boolean,
-  getFieldNames?: () => string[]
+  getFieldNames?: () => string[],
+  cache?: CacheService
 ) => {
+  const getListInfo = createGetListInfoMethod(WebClass, baseUrl, isLocal, isInSharePoint);
+
   return async (listName: string, itemId: number, targetListUrl?: string): Promise<ApiResponse<any>> => {
     try {
       const targetUrl = getWebUrl(targetListUrl, baseUrl, isLocal, isInSharePoint);
@@ -24,41 +50,32 @@ export const createGetItemMethod = (
         };
       }
 
-      const fieldMetadataPromises = finalFieldNames.map(fieldName =>
-        targetWeb.lists.getByTitle(listName)
-          .fields.getByInternalNameOrTitle(fieldName)
-          .get()
-          .catch(() => null)
-      );
-      const fieldMetadataResults = await Promise.all(fieldMetadataPromises);
+      const list = targetWeb.lists.getByTitle(listName);
+      const loadFieldKind = (fieldName: string): Promise<FieldKind | null> =>
+        list.fields.getByInternalNameOrTitle(fieldName).get().then(getFieldKind, () => null);
+
+      let fieldKinds: Array<FieldKind | null>;
+      if (cache) {
+        const version = await getListVersion(cache, listName, targetListUrl, getListInfo);
+        fieldKinds = await Promise.all(finalFieldNames.map(fieldName =>
+          cache.getOrLoad('fieldMetadata', cacheKey(targetListUrl, listName, fieldName, 'kind'), () => loadFieldKind(fieldName), {
+            version: version?.schema,
+            shouldCache: (kind) => kind !== null,
+          })
+        ));
+      } else {
+        fieldKinds = await Promise.all(finalFieldNames.map(loadFieldKind));
+      }
 
       const userFields: string[] = [];
       const lookupFields: string[] = [];
       const regularFields: string[] = [];
 
       finalFieldNames.forEach((fieldName, index) => {
-        const field = fieldMetadataResults[index];
-        if (!field) {
-          regularFields.push(fieldName);
-          return;
-        }
-
-        const fieldType = field.TypeAsString || field.Type || '';
-        const fieldTypeLower = fieldType.toLowerCase();
-
-        if (
-          field.PrincipalType !== undefined ||
-          fieldTypeLower.includes('user') ||
-          fieldTypeLower.includes('person')
-        ) {
+        const kind = fieldKinds[index];
+        if (kind === 'user') {
           userFields.push(fieldName);
-        } else if (
-          (field.LookupListId || field.LookupList) &&
-          field.PrincipalType === undefined &&
-          !fieldTypeLower.includes('user') &&
-          !fieldTypeLower.includes('person') &&
-          field['IsDependentLookup'] !== true
-        ) {
+        } else if (kind === 'lookup') {
           lookupFields.push(fieldName);
         } else {
           regularFields.push(fieldName);
@@ -101,7 +118,8 @@ export const createGetItemMethod = (
       return {
         success: false,
         error: error.message || 'Failed to fetch list item',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -128,7 +146,8 @@ export const createAddItemMethod = (
       return {
         success: false,
         error: error.message || 'Failed to create list item',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -140,11 +159,12 @@ export const createUpdateItemMethod = (
   isLocal: boolean,
   isInSharePoint: boolean
 ) => {
-  return async (listName: string, itemId: number, data: any, targetListUrl?: string): Promise<ApiResponse<any>> => {
+  return async (listName: string, itemId: number, data: any, targetListUrl?: string, options?: UpdateItemOptions): Promise<ApiResponse<any>> => {
     try {
       const targetUrl = getWebUrl(targetListUrl, baseUrl, isLocal, isInSharePoint);
       const targetWeb = targetUrl !== baseUrl ? new WebClass(targetUrl) : new WebClass(baseUrl);
-      await targetWeb.lists.getByTitle(listName).items.getById(itemId).update(data);
+      // A stale ETag fails with 412, which surfaces as statusCode below
+      await targetWeb.lists.getByTitle(listName).items.getById(itemId).update(data, options?.eTag || '*');
 
       const updatedItem = await targetWeb.lists.getByTitle(listName).items.getById(itemId).get();
 
@@ -157,7 +177,36 @@ export const createUpdateItemMethod = (
       return {
         success: false,
         error: error.message || 'Failed to update list item',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
+      };
+    }
+  };
+};
+
+export const createDeleteItemMethod = (
+  WebClass: any,
+  baseUrl: string,
+  isLocal: boolean,
+  isInSharePoint: boolean
+) => {
+  return async (listName: string, itemId: number, targetListUrl?: string): Promise<ApiResponse<any>> => {
+    try {
+      const targetUrl = getWebUrl(targetListUrl, baseUrl, isLocal, isInSharePoint);
+      const targetWeb = targetUrl !== baseUrl ? new WebClass(targetUrl) : new WebClass(baseUrl);
+      await targetWeb.lists.getByTitle(listName).items.getById(itemId).delete();
+
+      return {
+        success: true,
+        data: { deleted: true, itemId },
+        statusCode: 200,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to delete list item',
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -169,11 +218,33 @@ export const createGetListItemsMethod = (
   isLocal: boolean,
   isInSharePoint: boolean
 ) => {
-  return async (listName: string, targetListUrl?: string): Promise<ApiResponse<any>> => {
+  return async (listName: string, targetListUrl?: string, options?: ListItemsQueryOptions): Promise<ApiResponse<any>> => {
     try {
       const targetUrl = getWebUrl(targetListUrl, baseUrl, isLocal, isInSharePoint);
       const targetWeb = targetUrl !== baseUrl ? new WebClass(targetUrl) : new WebClass(baseUrl);
-      const items = await targetWeb.lists.getByTitle(listName).items.select('Id', 'Title').get();
+      let query = targetWeb.lists.getByTitle(listName).items.select(...(options?.select || ['Id', 'Title']));
+      if (options?.expand && options.expand.length > 0) {
+        query = query.expand(...options.expand);
+      }
+      if (options?.filter) {
+        query = query.filter(options.filter);
+      }
+      if (options?.orderBy) {
+        query = query.orderBy(options.orderBy, true);
+      }
+      query = query.top(options?.top || LIST_ITEMS_PAGE_SIZE);
+      let items: any[];
+      if (options?.top) {
+        items = await query.get();
+      } else {
+        // Child collections are saved back from this read, so it must hold every page
+        let page = await query.getPaged();
+        items = [...page.results];
+        while (page.hasNext) {
+          page = await page.getNext();
+          items.push(...page.results);
+        }
+      }
 
       return {
         success: true,
@@ -184,7 +255,50 @@ export const createGetListItemsMethod = (
       return {
         success: false,
         error: error.message || 'Failed to fetch list items',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
+      };
+    }
+  };
+};
+
+export const createSearchListItemsMethod = (
+  WebClass: any,
+  baseUrl: string,
+  isLocal: boolean,
+  isInSharePoint: boolean
+) => {
+  return async (listName: string, targetListUrl?: string, options: ListItemsSearchOptions = {}): Promise<ApiResponse<ListItemsPage>> => {
+    if (options.ids && options.ids.length === 0) {
+      return { success: true, data: { items: [] }, statusCode: 200 };
+    }
+    try {
+      const targetUrl = getWebUrl(targetListUrl, baseUrl, isLocal, isInSharePoint);
+      const targetWeb = targetUrl !== baseUrl ? new WebClass(targetUrl) : new WebClass(baseUrl);
+      let query = targetWeb.lists.getByTitle(listName).items
+        .select(...getSearchSelect(options))
+        .orderBy('Id', true)
+        .top(getSearchPageSize(options));
+      const filter = buildSearchFilter(options);
+      if (filter) {
+        query = query.filter(filter);
+      }
+      if (options.pageToken) {
+        query = query.skip(Number(options.pageToken));
+      }
+      const items = await query.get();
+
+      return {
+        success: true,
+        data: { items, nextPageToken: getNextPageToken(items, options) },
+        statusCode: 200,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to search list items',
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -220,7 +334,7 @@ export const createUploadFileMethod = (
 
         if (existingFile) {
           try {
-            await attachmentFiles.getByName(uploadFileName).delete();
+            await attachmentFiles.getByName(escapeODataString(uploadFileName)).delete();
           } catch (deleteError: any) {
             // Ignore delete errors
           }
@@ -230,7 +344,7 @@ export const createUploadFileMethod = (
       }
 
       const arrayBuffer = await file.arrayBuffer();
-      const result = await attachmentFiles.add(uploadFileName, arrayBuffer);
+      const result = await attachmentFiles.add(escapeODataString(uploadFileName), arrayBuffer);
 
       return {
         success: true,
@@ -241,7 +355,8 @@ export const createUploadFileMethod = (
       return {
         success: false,
         error: error.message || 'Failed to upload file',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -260,7 +375,7 @@ export const createDeleteFileMethod = (
       await targetWeb
         .lists.getByTitle(listName)
         .items.getById(itemId)
-        .attachmentFiles.getByName(fileName)
+        .attachmentFiles.getByName(escapeODataString(fileName))
         .delete();
 
       return {
@@ -272,7 +387,8 @@ export const createDeleteFileMethod = (
       return {
         success: false,
         error: error.message || 'Failed to delete file',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -332,7 +448,40 @@ export const createGetFieldMetadataMethod = (
       return {
         success: false,
         error: error.message || 'Failed to fetch field metadata',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
+      };
+    }
+  };
+};
+
+export const createGetListInfoMethod = (
+  WebClass: any,
+  baseUrl: string,
+  isLocal: boolean,
+  isInSharePoint: boolean
+) => {
+  return async (listName: string, targetListUrl?: string): Promise<ApiResponse<ListInfo>> => {
+    try {
+      const targetUrl = getWebUrl(targetListUrl, baseUrl, isLocal, isInSharePoint);
+      const targetWeb = targetUrl !== baseUrl ? new WebClass(targetUrl) : new WebClass(baseUrl);
+      const list = await targetWeb.lists.getByTitle(listName).get();
+
+      return {
+        success: true,
+        data: {
+          LastItemModifiedDate: list.LastItemModifiedDate,
+          LastItemDeletedDate: list.LastItemDeletedDate,
+          SchemaVersion: list.SchemaVersion,
+        },
+        statusCode: 200,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to fetch list information',
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -380,7 +529,8 @@ export const createGetListFieldsMethod = (
       return {
         success: false,
         error: error.message || 'Failed to fetch list fields',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -417,7 +567,8 @@ export const createSearchUsersMethod = (
       return {
         success: false,
         error: error.message || 'Failed to search users',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -452,7 +603,8 @@ export const createGetUserByIdMethod = (
       return {
         success: false,
         error: error.message || 'Failed to get user by Id',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
@@ -487,9 +639,68 @@ export const createGetAttachmentFilesMethod = (
       return {
         success: false,
         error: error.message || 'Failed to load attachment files',
-        statusCode: error.status || 500,
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
       };
     }
   };
 };
 
+
+export const createBatchMethod = (
+  WebClass: any,
+  baseUrl: string,
+  isLocal: boolean,
+  isInSharePoint: boolean
+) => {
+  return async (operations: BatchOperation[], targetListUrl?: string): Promise<ApiResponse<SaveOperationResult[]>> => {
+    try {
+      const targetUrl = getWebUrl(targetListUrl, baseUrl, isLocal, isInSharePoint);
+      const targetWeb = targetUrl !== baseUrl ? new WebClass(targetUrl) : new WebClass(baseUrl);
+      const batch = targetWeb.createBatch();
+
+      // Each request settles on its own once the batch comes back, so one failure does not hide the others
+      const requests: Promise<SaveOperationResult>[] = operations.map((operation) => {
+        const items = targetWeb.lists.getByTitle(operation.listName).items;
+        let request: Promise<any>;
+        switch (operation.type) {
+          case 'getItem':
+            request = items.getById(operation.itemId).inBatch(batch).get();
+            break;
+          case 'addItem':
+            request = items.inBatch(batch).add(operation.data).then((result: any) => result.data);
+            break;
+          case 'updateItem':
+            request = items.getById(operation.itemId).inBatch(batch).update(operation.data, operation.eTag || '*').then(() => undefined);
+            break;
+          case 'deleteItem':
+            request = items.getById(operation.itemId).inBatch(batch).delete();
+            break;
+          case 'deleteFile':
+            request = items.getById(operation.itemId).attachmentFiles.getByName(escapeODataString(operation.fileName)).inBatch(batch).delete();
+            break;
+        }
+        return request.then(
+          (data: any) => ({ operation, success: true, data, statusCode: 200 }),
+          (error: any) => ({ operation, success: false, error: error.message || `Failed to ${operation.type}`, statusCode: getErrorStatus(error), retryAfter: getRetryAfter(error) })
+        );
+      });
+
+      await batch.execute();
+      const results = await Promise.all(requests);
+
+      return {
+        success: true,
+        data: results,
+        statusCode: 200,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        error: error.message || 'Failed to execute batch',
+        statusCode: getErrorStatus(error),
+        retryAfter: getRetryAfter(error),
+      };
+    }
+  };
+};
@@ -1,4 +1,6 @@
-import { ApiResponse } from '../types';
+import { ApiResponse, ListItemsQueryOptions, UpdateItemOptions, BatchOperation, SaveOperationResult, ListInfo, ListItemsSearchOptions, ListItemsPage } from '../types';
+import { getRetryAfter, parseRetryAfter } from './requestPolicy';
+import { buildSearchFilter, getSearchSelect, getSearchPageSize, getNextPageToken, LIST_ITEMS_PAGE_SIZE, getNextLink, escapeODataString } from './listItemsSearch';
 
 /**
  * SPFx API Service - Real SharePoint API implementation
@@ -70,6 +72,7 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to fetch list item',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
@@ -94,11 +97,12 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to create list item',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
 
-    updateItem: async (listName: string, itemId: number, data: any, listUrl?: string): Promise<ApiResponse<any>> => {
+    updateItem: async (listName: string, itemId: number, data: any, listUrl?: string, options?: UpdateItemOptions): Promise<ApiResponse<any>> => {
       try {
         const web = listUrl 
           ? sp.web.getUrl() !== listUrl ? sp.site.openWeb(listUrl) : sp.web
@@ -107,7 +111,7 @@ export const createSpfxApiService = () => {
         await web
           .lists.getByTitle(listName)
           .items.getById(itemId)
-          .update(data);
+          .update(data, options?.eTag || '*');
 
         // Fetch updated item
         const updatedItem = await web
@@ -125,21 +129,71 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to update list item',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
 
-    getListItems: async (listName: string, listUrl?: string): Promise<ApiResponse<any>> => {
+    deleteItem: async (listName: string, itemId: number, listUrl?: string): Promise<ApiResponse<any>> => {
       try {
         const web = listUrl 
           ? sp.web.getUrl() !== listUrl ? sp.site.openWeb(listUrl) : sp.web
           : sp.web;
 
-        const items = await web
+        await web
+          .lists.getByTitle(listName)
+          .items.getById(itemId)
+          .delete();
+
+        return {
+          success: true,
+          data: { deleted: true, itemId },
+          statusCode: 200,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to delete list item',
+          statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
+        };
+      }
+    },
+
+    getListItems: async (listName: string, listUrl?: string, options?: ListItemsQueryOptions): Promise<ApiResponse<any>> => {
+      try {
+        const web = listUrl 
+          ? sp.web.getUrl() !== listUrl ? sp.site.openWeb(listUrl) : sp.web
+          : sp.web;
+
+        let query = web
           .lists.getByTitle(listName)
           .items
-          .select('Id', 'Title')
-          .get();
+          .select(...(options?.select || ['Id', 'Title']));
+
+        if (options?.expand && options.expand.length > 0) {
+          query = query.expand(...options.expand);
+        }
+        if (options?.filter) {
+          query = query.filter(options.filter);
+        }
+        if (options?.orderBy) {
+          query = query.orderBy(options.orderBy, true);
+        }
+        query = query.top(options?.top || LIST_ITEMS_PAGE_SIZE);
+
+        let items: any[];
+        if (options?.top) {
+          items = await query.get();
+        } else {
+          // Follow the next links, so callers that write the list back never work from a partial read
+          let page = await query.getPaged();
+          items = [...page.results];
+          while (page.hasNext) {
+            page = await page.getNext();
+            items.push(...page.results);
+          }
+        }
 
         return {
           success: true,
@@ -151,6 +205,48 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to fetch list items',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
+        };
+      }
+    },
+
+    searchListItems: async (listName: string, listUrl?: string, options: ListItemsSearchOptions = {}): Promise<ApiResponse<ListItemsPage>> => {
+      if (options.ids && options.ids.length === 0) {
+        return { success: true, data: { items: [] }, statusCode: 200 };
+      }
+      try {
+        const web = listUrl 
+          ? sp.web.getUrl() !== listUrl ? sp.site.openWeb(listUrl) : sp.web
+          : sp.web;
+
+        let query = web
+          .lists.getByTitle(listName)
+          .items
+          .select(...getSearchSelect(options))
+          .orderBy('Id', true)
+          .top(getSearchPageSize(options));
+
+        const filter = buildSearchFilter(options);
+        if (filter) {
+          query = query.filter(filter);
+        }
+        if (options.pageToken) {
+          query = query.skip(Number(options.pageToken));
+        }
+
+        const items = await query.get();
+
+        return {
+          success: true,
+          data: { items, nextPageToken: getNextPageToken(items, options) },
+          statusCode: 200,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to search list items',
+          statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
@@ -195,6 +291,7 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to fetch field metadata',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
@@ -238,6 +335,34 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to fetch list fields',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
+        };
+      }
+    },
+
+    getListInfo: async (listName: string, listUrl?: string): Promise<ApiResponse<ListInfo>> => {
+      try {
+        const web = listUrl 
+          ? sp.web.getUrl() !== listUrl ? sp.site.openWeb(listUrl) : sp.web
+          : sp.web;
+
+        const list = await web.lists.getByTitle(listName).get();
+
+        return {
+          success: true,
+          data: {
+            LastItemModifiedDate: list.LastItemModifiedDate,
+            LastItemDeletedDate: list.LastItemDeletedDate,
+            SchemaVersion: list.SchemaVersion,
+          },
+          statusCode: 200,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to fetch list information',
+          statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
@@ -263,7 +388,7 @@ export const createSpfxApiService = () => {
         // Convert File to ArrayBuffer for upload
         const arrayBuffer = await file.arrayBuffer();
         
-        const result = await attachmentFolder.add(uploadFileName, arrayBuffer);
+        const result = await attachmentFolder.add(escapeODataString(uploadFileName), arrayBuffer);
 
         return {
           success: true,
@@ -275,6 +400,7 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to upload file',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
@@ -293,7 +419,7 @@ export const createSpfxApiService = () => {
         await web
           .lists.getByTitle(listName)
           .items.getById(itemId)
-          .attachmentFiles.getByName(fileName)
+          .attachmentFiles.getByName(escapeODataString(fileName))
           .delete();
 
         return {
@@ -306,6 +432,7 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to delete file',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
@@ -441,6 +568,7 @@ export const createSpfxApiService = () => {
           success: false,
           error: error.message || 'Failed to search users',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
         };
       }
     },
@@ -467,6 +595,12 @@ export const createSpfxRestApiService = (context?: any) => {
     return `${webUrl}/_api/web/lists/getbytitle('${listName}')`;
   };
 
+  // nometadata responses leave out `odata.etag`; the ETag header carries it
+  const withETag = (item: any, response: Response) => {
+    const eTag = response.headers.get('ETag');
+    return item && eTag && !item['odata.etag'] ? { ...item, 'odata.etag': eTag } : item;
+  };
+
   const getHeaders = () => {
     const headers: HeadersInit = {
       'Accept': 'application/json;odata=nometadata',
@@ -499,10 +633,11 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
-        const data = await response.json();
+        const data = withETag(await response.json(), response);
         return {
           success: true,
           data: data,
@@ -535,6 +670,7 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
@@ -553,7 +689,7 @@ export const createSpfxRestApiService = (context?: any) => {
       }
     },
 
-    updateItem: async (listName: string, itemId: number, data: any, listUrl?: string): Promise<ApiResponse<any>> => {
+    updateItem: async (listName: string, itemId: number, data: any, listUrl?: string, options?: UpdateItemOptions): Promise<ApiResponse<any>> => {
       try {
         const apiUrl = `${getApiUrl(listName, listUrl)}/items(${itemId})`;
         const response = await fetch(apiUrl, {
@@ -561,7 +697,7 @@ export const createSpfxRestApiService = (context?: any) => {
           headers: {
             ...getHeaders(),
             'X-RequestDigest': await getFormDigest(listUrl),
-            'IF-MATCH': '*',
+            'IF-MATCH': options?.eTag || '*',
             'X-HTTP-Method': 'MERGE',
           },
           body: JSON.stringify(data),
@@ -573,6 +709,7 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
@@ -582,7 +719,7 @@ export const createSpfxRestApiService = (context?: any) => {
           headers: getHeaders(),
         });
 
-        const updatedData = await getResponse.json();
+        const updatedData = withETag(await getResponse.json(), getResponse);
         return {
           success: true,
           data: updatedData,
@@ -597,11 +734,114 @@ export const createSpfxRestApiService = (context?: any) => {
       }
     },
 
-    getListItems: async (listName: string, listUrl?: string): Promise<ApiResponse<any>> => {
+    deleteItem: async (listName: string, itemId: number, listUrl?: string): Promise<ApiResponse<any>> => {
       try {
-        const webUrl = getWebUrl(listUrl);
-        const apiUrl = `${webUrl}/_api/web/lists/getbytitle('${listName}')/items?$select=Id,Title`;
-        
+        const apiUrl = `${getApiUrl(listName, listUrl)}/items(${itemId})`;
+        const response = await fetch(apiUrl, {
+          method: 'POST',
+          headers: {
+            ...getHeaders(),
+            'X-RequestDigest': await getFormDigest(listUrl),
+            'X-HTTP-Method': 'DELETE',
+            'IF-MATCH': '*',
+          },
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          return {
+            success: false,
+            error: error || `HTTP ${response.status}`,
+            statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+          };
+        }
+
+        return {
+          success: true,
+          data: { deleted: true, itemId },
+          statusCode: 200,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to delete list item',
+          statusCode: 500,
+        };
+      }
+    },
+
+    getListItems: async (listName: string, listUrl?: string, options?: ListItemsQueryOptions): Promise<ApiResponse<any>> => {
+      try {
+        const queryParts = [`$select=${(options?.select || ['Id', 'Title']).join(',')}`];
+        if (options?.expand && options.expand.length > 0) {
+          queryParts.push(`$expand=${options.expand.join(',')}`);
+        }
+        if (options?.filter) {
+          queryParts.push(`$filter=${encodeURIComponent(options.filter)}`);
+        }
+        if (options?.orderBy) {
+          queryParts.push(`$orderby=${options.orderBy}`);
+        }
+        queryParts.push(`$top=${options?.top || LIST_ITEMS_PAGE_SIZE}`);
+        let apiUrl: string | undefined = `${getApiUrl(listName, listUrl)}/items?${queryParts.join('&')}`;
+        const items: any[] = [];
+
+        // Without a top, the next links are followed to the last page
+        while (apiUrl) {
+          const response = await fetch(apiUrl, {
+            method: 'GET',
+            headers: getHeaders(),
+          });
+
+          if (!response.ok) {
+            const error = await response.text();
+            return {
+              success: false,
+              error: error || `HTTP ${response.status}`,
+              statusCode: response.status,
+              retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+            };
+          }
+
+          const data = await response.json();
+          items.push(...(data.d?.results || data.value || []));
+          apiUrl = options?.top ? undefined : getNextLink(data);
+        }
+
+        return {
+          success: true,
+          data: items,
+          statusCode: 200,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to fetch list items',
+          statusCode: 500,
+        };
+      }
+    },
+
+    searchListItems: async (listName: string, listUrl?: string, options: ListItemsSearchOptions = {}): Promise<ApiResponse<ListItemsPage>> => {
+      if (options.ids && options.ids.length === 0) {
+        return { success: true, data: { items: [] }, statusCode: 200 };
+      }
+      try {
+        const queryParts = [
+          `$select=${getSearchSelect(options).join(',')}`,
+          '$orderby=Id',
+          `$top=${getSearchPageSize(options)}`,
+        ];
+        const filter = buildSearchFilter(options);
+        if (filter) {
+          queryParts.push(`$filter=${encodeURIComponent(filter)}`);
+        }
+        if (options.pageToken) {
+          queryParts.push(`$skiptoken=${encodeURIComponent(`Paged=TRUE&p_ID=${options.pageToken}`)}`);
+        }
+        const apiUrl = `${getApiUrl(listName, listUrl)}/items?${queryParts.join('&')}`;
+
         const response = await fetch(apiUrl, {
           method: 'GET',
           headers: getHeaders(),
@@ -613,19 +853,21 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
         const data = await response.json();
+        const items = data.d?.results || data.value || [];
         return {
           success: true,
-          data: data.d?.results || data.value || [],
+          data: { items, nextPageToken: getNextPageToken(items, options) },
           statusCode: 200,
         };
       } catch (error: any) {
         return {
           success: false,
-          error: error.message || 'Failed to fetch list items',
+          error: error.message || 'Failed to search list items',
           statusCode: 500,
         };
       }
@@ -647,6 +889,7 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
@@ -701,6 +944,7 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
@@ -738,6 +982,43 @@ export const createSpfxRestApiService = (context?: any) => {
       }
     },
 
+    getListInfo: async (listName: string, listUrl?: string): Promise<ApiResponse<ListInfo>> => {
+      try {
+        const response = await fetch(getApiUrl(listName, listUrl), {
+          method: 'GET',
+          headers: getHeaders(),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          return {
+            success: false,
+            error: error || `HTTP ${response.status}`,
+            statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+          };
+        }
+
+        const list = await response.json();
+        const data = list.d || list;
+        return {
+          success: true,
+          data: {
+            LastItemModifiedDate: data.LastItemModifiedDate,
+            LastItemDeletedDate: data.LastItemDeletedDate,
+            SchemaVersion: data.SchemaVersion,
+          },
+          statusCode: 200,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to fetch list information',
+          statusCode: 500,
+        };
+      }
+    },
+
     uploadFile: async (
       listName: string,
       itemId: number,
@@ -748,7 +1029,7 @@ export const createSpfxRestApiService = (context?: any) => {
       try {
         const webUrl = getWebUrl(listUrl);
         const uploadFileName = fileName || file.name;
-        const apiUrl = `${webUrl}/_api/web/lists/getbytitle('${listName}')/items(${itemId})/AttachmentFiles/add(FileName='${encodeURIComponent(uploadFileName)}')`;
+        const apiUrl = `${webUrl}/_api/web/lists/getbytitle('${listName}')/items(${itemId})/AttachmentFiles/add(FileName='${encodeURIComponent(escapeODataString(uploadFileName))}')`;
         
         // Convert File to ArrayBuffer
         const arrayBuffer = await file.arrayBuffer();
@@ -769,6 +1050,7 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
@@ -795,7 +1077,7 @@ export const createSpfxRestApiService = (context?: any) => {
     ): Promise<ApiResponse<any>> => {
       try {
         const webUrl = getWebUrl(listUrl);
-        const apiUrl = `${webUrl}/_api/web/lists/getbytitle('${listName}')/items(${itemId})/AttachmentFiles/getByFileName('${encodeURIComponent(fileName)}')`;
+        const apiUrl = `${webUrl}/_api/web/lists/getbytitle('${listName}')/items(${itemId})/AttachmentFiles/getByFileName('${encodeURIComponent(escapeODataString(fileName))}')`;
         
         const response = await fetch(apiUrl, {
           method: 'POST',
@@ -813,6 +1095,7 @@ export const createSpfxRestApiService = (context?: any) => {
             success: false,
             error: error || `HTTP ${response.status}`,
             statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
           };
         }
 
@@ -920,12 +1203,155 @@ export const createSpfxRestApiService = (context?: any) => {
           success: false,
           error: error.message || 'Failed to search users',
           statusCode: error.status || 500,
+          retryAfter: getRetryAfter(error),
+        };
+      }
+    },
+
+    batch: async (operations: BatchOperation[], listUrl?: string): Promise<ApiResponse<SaveOperationResult[]>> => {
+      try {
+        const boundary = `batch_${Math.random().toString(36).slice(2)}`;
+        const requests = operations.map((operation): BatchRequest => {
+          const itemUrl = (itemId: number) => `${getApiUrl(operation.listName, listUrl)}/items(${itemId})`;
+          switch (operation.type) {
+            case 'getItem':
+              return { method: 'GET', url: itemUrl(operation.itemId) };
+            case 'addItem':
+              return { method: 'POST', url: `${getApiUrl(operation.listName, listUrl)}/items`, body: operation.data };
+            case 'updateItem':
+              return { method: 'PATCH', url: itemUrl(operation.itemId), body: operation.data, headers: { 'IF-MATCH': operation.eTag || '*' } };
+            case 'deleteItem':
+              return { method: 'DELETE', url: itemUrl(operation.itemId), headers: { 'IF-MATCH': '*' } };
+            case 'deleteFile':
+              return {
+                method: 'DELETE',
+                url: `${itemUrl(operation.itemId)}/AttachmentFiles/getByFileName('${encodeURIComponent(escapeODataString(operation.fileName))}')`,
+                headers: { 'IF-MATCH': '*' },
+              };
+          }
+        });
+
+        const response = await fetch(`${getWebUrl(listUrl)}/_api/$batch`, {
+          method: 'POST',
+          headers: {
+            'Accept': 'application/json;odata=nometadata',
+            'Content-Type': `multipart/mixed; boundary=${boundary}`,
+            'X-RequestDigest': await getFormDigest(listUrl),
+          },
+          body: createBatchBody(boundary, requests),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          return {
+            success: false,
+            error: error || `HTTP ${response.status}`,
+            statusCode: response.status,
+            retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+          };
+        }
+
+        const parts = parseBatchResponse(await response.text());
+        const results = operations.map((operation, index): SaveOperationResult => {
+          const part = parts[index];
+          if (!part) {
+            return { operation, success: false, error: 'No response for this operation in the batch', statusCode: 500 };
+          }
+          if (part.status < 200 || part.status >= 300) {
+            return { operation, success: false, error: part.body || `HTTP ${part.status}`, statusCode: part.status, retryAfter: part.retryAfter };
+          }
+          const data = parseBatchBody(part.body);
+          return {
+            operation,
+            success: true,
+            data: data && part.eTag && !data['odata.etag'] ? { ...data, 'odata.etag': part.eTag } : data,
+            statusCode: part.status,
+          };
+        });
+
+        return {
+          success: true,
+          data: results,
+          statusCode: 200,
+        };
+      } catch (error: any) {
+        return {
+          success: false,
+          error: error.message || 'Failed to execute batch',
+          statusCode: 500,
         };
       }
     },
   };
 };
 
+interface BatchRequest {
+  method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+  url: string;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Build a multipart $batch body; SharePoint only accepts writes inside a changeset, so each write gets its own
+ */
+const createBatchBody = (boundary: string, requests: BatchRequest[]): string => {
+  const lines: string[] = [];
+  requests.forEach((request, index) => {
+    const httpLines = [
+      `${request.method} ${request.url} HTTP/1.1`,
+      'Accept: application/json;odata=nometadata',
+      ...(request.body !== undefined ? ['Content-Type: application/json;odata=nometadata'] : []),
+      ...Object.keys(request.headers || {}).map((name) => `${name}: ${request.headers![name]}`),
+      '',
+      ...(request.body !== undefined ? [JSON.stringify(request.body)] : []),
+    ];
+    const part = ['Content-Type: application/http', 'Content-Transfer-Encoding: binary', '', ...httpLines, ''];
+
+    lines.push(`--${boundary}`);
+    if (request.method === 'GET') {
+      lines.push(...part);
+    } else {
+      const changeset = `changeset_${boundary}_${index}`;
+      lines.push(`Content-Type: multipart/mixed; boundary="${changeset}"`, '', `--${changeset}`, ...part, `--${changeset}--`);
+    }
+  });
+  lines.push(`--${boundary}--`, '');
+  return lines.join('\r\n');
+};
+
+/**
+ * Split a $batch response into its HTTP responses, in request order
+ */
+const parseBatchResponse = (text: string): Array<{ status: number; body: string; eTag?: string; retryAfter?: number }> => {
+  return text
+    .replace(/\r/g, '')
+    .split(/^--.*$/m)
+    .map((part) => /HTTP\/1\.1 (\d{3})[^\n]*\n([\s\S]*)/.exec(part))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map((match) => {
+      const bodyStart = match[2].indexOf('\n\n');
+      const headers = bodyStart >= 0 ? match[2].slice(0, bodyStart) : match[2];
+      return {
+        status: Number(match[1]),
+        body: bodyStart >= 0 ? match[2].slice(bodyStart + 2).trim() : '',
+        eTag: /^ETag:\s*(.+)$/mi.exec(headers)?.[1].trim(),
+        retryAfter: parseRetryAfter(/^Retry-After:\s*(.+)$/mi.exec(headers)?.[1].trim()),
+      };
+    });
+};
+
+const parseBatchBody = (body: string): any => {
+  if (!body) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
 /**
  * Get form digest for REST API requests
  */
@@ -45,15 +45,157 @@ export interface SharePointFieldMetadata {
   Max?: number;
 }
 
-export interface ValidationRule {
+/**
+ * Field names accepted for a values type: top-level keys plus nested paths below them
+ * (`lines[0].Amount`, `address.City`). With the default FormState this is just `string`.
+ */
+export type FieldPath<TValues extends FormState = FormState> =
+  | (keyof TValues & string)
+  | `${keyof TValues & string}.${string}`
+  | `${keyof TValues & string}[${string}`;
+
+export type FieldPathValue<TValues extends FormState, K extends string> = K extends keyof TValues ? TValues[K] : any;
+
+// Blocks type inference from a position (works on TypeScript versions before the built-in NoInfer)
+export type NoInferValues<T> = [T][T extends any ? 0 : never];
+
+export interface ValidationRule<TValues extends FormState = FormState> {
   required?: boolean;
   minLength?: number;
   maxLength?: number;
   min?: number;
   max?: number;
   pattern?: RegExp;
-  custom?: (value: any) => string | null;
+  custom?: (value: any, values: TValues) => string | null; // values: all form values, for cross-field checks
+  dependsOn?: string[]; // Re-validate this field when any of these fields change
   email?: boolean;
+  asyncValidate?: (value: any, context: AsyncValidationContext<TValues>) => Promise<string | null>; // Runs after the sync rules pass
+  asyncDebounce?: number; // Debounce in ms for asyncValidate while typing (default: 400)
+  label?: string; // Field name used for `{label}` in messages (defaults to the field path)
+  message?: string | Partial<Record<ValidationMessageKey, string>>; // Replaces the catalog message for every built-in rule, or per rule
+}
+
+export type ValidationMessageKey = 'required' | 'email' | 'pattern' | 'minLength' | 'maxLength' | 'min' | 'max';
+
+/**
+ * Strings shown by validation and the built-in components. `{name}` placeholders are filled in when shown;
+ * validation messages get `{label}`, `{value}` and the rule's own parameter (e.g. `{max}`)
+ */
+export interface FormMessages {
+  required: string;
+  email: string;
+  pattern: string;
+  minLength: string; // {minLength}
+  maxLength: string; // {maxLength}
+  min: string; // {min}
+  max: string; // {max}
+  loading: string;
+  loadingField: string; // {field}
+  loadingOptions: string;
+  selectOption: string;
+  selectOptions: string;
+  selectFromList: string; // {list}
+  failedToLoadOptions: string;
+  searchList: string; // {list}
+  loadMore: string;
+  failedToLoadFieldMetadata: string;
+  suggestedPeople: string;
+  noResultsFound: string;
+  peoplePickerPlaceholder: string;
+  peoplePickerLabel: string;
+  remove: string;
+  attachFile: string;
+  uploading: string;
+  uploadFailed: string;
+  fileTooLarge: string; // {fileName}, {maxSize} in MB
+  fileTypeNotAllowed: string; // {fileName}, {allowedTypes}
+  maxFilesExceeded: string; // {maxFiles}
+  fileCount: string; // {count}
+  fileCountOfMax: string; // {count}, {maxFiles}
+  maxFileSize: string; // {maxSize} in MB
+  openFileInNewTab: string; // {fileName}
+  noAttachments: string;
+  draftFound: string;
+  draftFoundAt: string; // {savedAt}
+  restoreDraft: string;
+  discardDraft: string;
+  unsavedChanges: string;
+  wizardBack: string;
+  wizardNext: string;
+  wizardSubmit: string;
+  yes: string; // Checkbox value in display mode
+  no: string;
+  errorSummaryTitle: string;
+  formHasErrors: string; // {count}; announced when submit fails validation
+  saveSucceeded: string;
+  saveFailed: string; // {error}
+  invalidValue: string; // {label}; SharePoint could not convert the value on save
+  asyncValidationFailed: string; // An async validator threw, e.g. its request failed
+  conflictTitle: string;
+  conflictDescription: string;
+  conflictMine: string;
+  conflictTheirs: string;
+  conflictChangedOnServer: string;
+  conflictSave: string;
+  conflictCancel: string;
+}
+
+export interface UseFormMessagesReturn {
+  locale: string;
+  messages: FormMessages;
+  formatMessage: (key: keyof FormMessages, params?: Record<string, any>) => string;
+}
+
+export type ValidationSchema<TValues extends FormState = FormState> = {
+  [K in FieldPath<TValues>]?: ValidationRule<TValues>;
+};
+
+export interface AsyncValidationContext<TValues extends FormState = FormState> {
+  values: TValues;
+  signal: AbortSignal; // Aborted when a newer value is validated or the form is reset
+}
+
+export type FieldRuleCondition<TValues extends FormState = FormState> = boolean | ((values: TValues, fieldName: string) => boolean);
+
+export interface FieldRule<TValues extends FormState = FormState> {
+  visible?: FieldRuleCondition<TValues>;
+  required?: FieldRuleCondition<TValues>;
+  disabled?: FieldRuleCondition<TValues>;
+  readOnly?: FieldRuleCondition<TValues>;
+}
+
+export type FieldRules<TValues extends FormState = FormState> = {
+  [K in FieldPath<TValues>]?: FieldRule<TValues>;
+};
+
+export interface ComputedFieldConfig<TValues extends FormState = FormState> {
+  compute: (values: TValues) => any; // Reads other fields (computed ones included) from `values`
+  persist?: boolean; // Save the value to SharePoint like any other field (default: false)
+}
+
+export type ComputedField<TValues extends FormState = FormState> =
+  | ((values: TValues) => any)
+  | ComputedFieldConfig<TValues>;
+
+export type ComputedFields<TValues extends FormState = FormState> = {
+  [K in keyof TValues & string]?: ComputedField<TValues>;
+};
+
+export interface FieldTransform<TValue = any, TDisplay = any> {
+  format?: (value: TValue, name: string) => TDisplay; // Stored value -> what the input shows
+  parse?: (displayValue: TDisplay, name: string) => TValue; // Input value -> stored value
+  normalize?: (value: TValue, name: string) => TValue; // Canonical stored value; runs on blur, on load and on save
+}
+
+export type FieldTransforms<TValues extends FormState = FormState> = {
+  [K in FieldPath<TValues>]?: FieldTransform<FieldPathValue<TValues, K>>;
+};
+
+export interface FieldRuleState {
+  visible?: boolean;
+  required?: boolean;
+  disabled?: boolean;
+  readOnly?: boolean;
 }
 
 export interface FieldError {
@@ -101,34 +243,90 @@ export interface SharePointListConfig {
   fieldMapping?: Record<string, string>; // Map SharePoint field names to form field names
 }
 
-export interface FormConfig {
-  initialValues?: FormState;
-  validationSchema?: Record<string, ValidationRule>;
-  onSubmit?: (values: FormState) => Promise<any> | any; // Optional - if not provided, will auto save to SharePoint
+export interface ListItemsQueryOptions {
+  select?: string[]; // Defaults to Id, Title
+  expand?: string[];
+  filter?: string; // OData $filter
+  orderBy?: string;
+  top?: number; // Only the first page of this size; without it every page is read
+}
+
+export interface ListItemsSearchOptions {
+  searchText?: string; // Empty lists the first page
+  searchField?: string; // Column matched against searchText (default: 'Title')
+  operator?: 'startswith' | 'substringof'; // Default: 'startswith', which can use a column index; substringof always scans the list
+  filter?: string; // OData $filter applied before the search, e.g. on an indexed column to stay under the list view threshold
+  select?: string[]; // Id and searchField are always selected
+  ids?: Array<string | number>; // Load these items by ID instead of searching
+  top?: number; // Page size (default: 50)
+  pageToken?: string; // nextPageToken of the previous page
+}
+
+export interface ListItemsPage<T = any> {
+  items: T[]; // Ordered by Id, the one column every list indexes
+  nextPageToken?: string; // Set while another page may follow
+}
+
+export interface ChildCollectionConfig {
+  name: string; // Field array in form values that holds the child rows
+  listName: string; // Child SharePoint list
+  listUrl?: string; // Optional, defaults to the parent's listUrl
+  parentLookupField: string; // Lookup column in the child list pointing back to the parent item (e.g. 'Project')
+  fields?: string[]; // Child fields to load (defaults to all fields)
+  fieldMapping?: Record<string, string>; // Map child SharePoint field names to row field names
+}
+
+export type FormMode = 'new' | 'edit' | 'display';
+
+export interface FormConfig<TValues extends FormState = FormState> {
+  formId?: string; // Registers the form so getFormById/useFormById can reach it from anywhere on the page
+  initialValues?: Partial<TValues>;
+  validationSchema?: ValidationSchema<TValues>;
+  rules?: FieldRules<TValues>; // Conditional visible/required/disabled/readOnly per field (keys may use `[*]` for field array rows)
+  clearHiddenOnSave?: boolean; // Save hidden fields as empty instead of their current value (default: false)
+  computed?: ComputedFields<TValues>; // Read-only fields recalculated from other values on every change (top-level names only)
+  locale?: string; // Message catalog, e.g. 'en' or 'vi-VN' (defaults to the SharePoint UI language, then 'en')
+  messages?: Partial<FormMessages>; // Overrides for individual catalog strings
+  fieldTransforms?: FieldTransforms<TValues>; // Per-field format/parse/normalize (keys may use `[*]` for field array rows)
+  onSubmit?: (values: TValues) => Promise<any> | any; // Optional - if not provided, will auto save to SharePoint
+  validate?: (values: TValues) => FormErrors; // Form-level validation across fields; use the `formError` key for errors no single field owns
   onError?: (errors: FormErrors) => void;
+  focusOnError?: boolean; // Scroll to and focus the first invalid field when submit fails (default: true)
+  detectConflicts?: boolean; // Update with the loaded item's ETag so edits saved by someone else in the meantime come back as a conflict (default: true)
+  retryPolicy?: RetryPolicy | false; // Retries of throttled (429/503) API service calls; false turns them off
+  cache?: CacheConfig | false; // Cache for field metadata and lookup options, read when the form mounts; false turns it off
   validateOnChange?: boolean;
   validateOnBlur?: boolean;
   enableReinitialize?: boolean;
+  historyLimit?: number; // Max undo steps kept (default: 100); rapid typing in one field counts as one step
+  draft?: boolean | DraftConfig; // Opt-in autosave of unsaved edits to browser storage, offered back on the next visit
+  unsavedChangesGuard?: boolean | UnsavedChangesGuardOptions; // Warn before closing the tab or following a link with unsaved edits
   // Custom field rendering
-  onRenderField?: (props: CustomFieldRenderProps) => React.ReactNode; // Custom render function for any field
+  onRenderField?: (props: CustomFieldRenderProps<TValues>) => React.ReactNode; // Custom render function for any field
   // SharePoint list configuration - direct props
   id?: number; // Item ID (0 or undefined = new item, > 0 = edit existing)
+  mode?: FormMode; // Defaults to 'edit' when an item ID is set, otherwise 'new'; 'display' renders every field read-only and disables submit
   listName?: string; // SharePoint list name
   listUrl?: string; // SharePoint list URL (optional) - can be list URL or web URL
   userServiceUrl?: string; // SharePoint web URL for user search (optional, defaults to extracted web URL from listUrl)
-  fieldMapping?: Record<string, string>; // Map SharePoint field names to form field names (bidirectional)
+  fieldMapping?: Record<string, FieldPath<TValues>>; // Map SharePoint field names to form field names (bidirectional)
   fields?: string[]; // List of field names to automatically select and expand (lookup fields will be auto-expanded)
+  childCollections?: ChildCollectionConfig[]; // Child lists saved together with the parent item (master-detail)
   autoSave?: boolean; // Auto save to SharePoint on submit (default: true if listName is provided)
   apiService?: {
     getItem: (listName: string, itemId: number, listUrl?: string, fieldNames?: string[]) => Promise<ApiResponse<any>>;
     addItem: (listName: string, data: any, listUrl?: string) => Promise<ApiResponse<any>>;
-    updateItem: (listName: string, itemId: number, data: any, listUrl?: string) => Promise<ApiResponse<any>>;
-    getListItems?: (listName: string, listUrl?: string) => Promise<ApiResponse<any>>; // Optional: for loading lookup options
+    updateItem: (listName: string, itemId: number, data: any, listUrl?: string, options?: UpdateItemOptions) => Promise<ApiResponse<any>>; // statusCode 412 when options.eTag is stale
+    getListItems?: (listName: string, listUrl?: string, options?: ListItemsQueryOptions) => Promise<ApiResponse<any>>; // Optional: for loading lookup options and child items
+    deleteItem?: (listName: string, itemId: number, listUrl?: string) => Promise<ApiResponse<any>>; // Optional: for deleting child items
     uploadFile?: (listName: string, itemId: number, file: File, fileName?: string, listUrl?: string) => Promise<ApiResponse<any>>; // Optional: for uploading attachments
     deleteFile?: (listName: string, itemId: number, fileName: string, listUrl?: string) => Promise<ApiResponse<any>>; // Optional: for deleting attachments
     getFieldMetadata?: (listName: string, fieldName: string, listUrl?: string) => Promise<ApiResponse<SharePointFieldMetadata>>; // Optional: for getting field metadata
     getListFields?: (listName: string, listUrl?: string) => Promise<ApiResponse<SharePointFieldMetadata[]>>; // Optional: for getting all list fields
     searchUsers?: (searchText: string, listUrl?: string) => Promise<ApiResponse<any[]>>; // Optional: for searching users in SharePoint
+    getListInfo?: (listName: string, listUrl?: string) => Promise<ApiResponse<ListInfo>>; // Optional: lets cached metadata and lookup options expire when the list changes
+    searchListItems?: (listName: string, listUrl?: string, options?: ListItemsSearchOptions) => Promise<ApiResponse<ListItemsPage>>; // Optional: for FormLookup serverSearch
+    batch?: (operations: BatchOperation[], listUrl?: string) => Promise<ApiResponse<SaveOperationResult[]>>; // Optional: sends the operations in one $batch request, results in the same order
   }; // Custom API service, defaults to mockApi
   // Legacy listConfig (deprecated, use id/listName/listUrl directly)
   listConfig?: SharePointListConfig;
@@ -136,57 +334,196 @@ export interface FormConfig {
   onLoadError?: (error: string) => void; // Callback when loading fails
   onSaveSuccess?: (data: any) => void; // Callback when save is successful
   onSaveError?: (error: string) => void; // Callback when save fails
-  onBeforeSave?: (values: FormState) => FormState | Promise<FormState>; // Transform data before saving
-  onValidSave?: (form: UseFormReturn) => boolean; // Custom validation check before saving (default: form.isValid)
+  onBeforeSave?: (values: TValues) => TValues | Promise<TValues>; // Transform data before saving
+  onValidSave?: (form: UseFormReturn<TValues>) => boolean; // Custom validation check before saving (default: form.isValid)
 }
 
-export interface CustomFieldRenderProps {
+export interface CustomFieldRenderProps<TValues extends FormState = FormState> {
   name: string;
   value: any;
   error: FieldError | null;
   touched: boolean;
   onChange: (value: any) => void;
   onBlur: () => void;
-  setValue: (name: string, value: any) => void;
-  getValue: (name: string) => any;
-  form: UseFormReturn; // Access to full form context
+  setValue: UseFormReturn<TValues>['setValue'];
+  getValue: UseFormReturn<TValues>['getValue'];
+  form: UseFormReturn<TValues>; // Access to full form context
 }
 
-export interface UseFormReturn {
-  values: FormState;
+export type SubmitStatus = 'idle' | 'validating' | 'saving' | 'uploading' | 'succeeded' | 'failed' | 'conflict';
+
+// A field this user changed while someone else saved the item
+export interface ConflictField {
+  name: string;
+  mine: any; // Value in the form
+  theirs: any; // Value on the server now
+  original: any; // Value when the form loaded the item
+  changedOnServer: boolean; // theirs differs from original, i.e. both saves touched the field
+}
+
+export interface SaveConflict {
+  fields: ConflictField[];
+  serverValues: FormState; // The form's saved fields as they are on the server now
+  serverItem: any;
+  eTag?: string; // ETag of serverItem; the merged save is sent with it
+}
+
+// Which value to keep per conflicting field; fields left out keep 'mine'
+export type ConflictResolution = Record<string, 'mine' | 'theirs'>;
+
+// What `await form.handleSubmit()` resolves with; it never rejects
+export type SubmitResult<TData = any> =
+  | { status: 'succeeded'; data: TData; itemId?: number; savedAt: Date; operations?: SaveOperationResult[] } // data: the saved item, or what onSubmit returned; operations: each SharePoint write and its outcome
+  | { status: 'invalid'; errors: FormErrors } // Validation or onValidSave stopped the submit
+  | { status: 'failed'; error: string; errors?: FormErrors; operations?: SaveOperationResult[] } // The save or onSubmit threw; errors: what SharePoint reported, mapped to fields
+  | { status: 'conflict'; conflict: SaveConflict } // Someone else saved the item since it was loaded (HTTP 412)
+  | { status: 'skipped' }; // Display mode has nothing to submit, or resolveConflict had no conflict
+
+export interface UseFormReturn<TValues extends FormState = FormState> {
+  values: TValues;
   errors: FormErrors;
   touched: FormTouched;
   dirtyFields: FormDirtyFields;
   isSubmitting: boolean;
+  submitCount: number; // Submit attempts, including ones stopped by validation
+  submitStatus: SubmitStatus; // 'failed' after a validation failure or a save error
+  submitError: string | null; // Error from the last failed save
+  lastSavedAt: Date | null;
+  lastSaveResult: any; // The saved item, or what onSubmit returned, from the last successful submit
+  conflict: SaveConflict | null; // Set while a save is waiting on resolveConflict
   isLoading: boolean; // Loading state when fetching item data
   isValid: boolean;
+  isValidating: boolean; // True while any async validator is pending
+  validatingFields: Record<string, boolean>; // Fields with a pending async validator
+  canUndo: boolean;
+  canRedo: boolean;
   itemData?: any; // Original item data from SharePoint
   itemId?: number; // Current item ID (0 or undefined means new item)
+  mode: FormMode; // Resolved form mode
   listName?: string; // SharePoint list name
   listUrl?: string; // SharePoint list URL
   userServiceUrl?: string; // SharePoint web URL for user search
-  setValue: (name: string, value: any) => void;
-  getValue: (name: string) => any; // Get value by field name
+  setValue: <K extends FieldPath<TValues>>(name: K, value: FieldPathValue<TValues, K>) => void;
+  getValue: <K extends FieldPath<TValues>>(name: K) => FieldPathValue<TValues, K>; // Get value by field name
   setError: (name: string, error: FieldError | null) => void;
   setTouched: (name: string, touched: boolean) => void;
-  setValues: (values: FormState) => void;
-  handleChange: (name: string, value: any) => void;
+  setValues: (values: TValues) => void;
+  handleChange: <K extends FieldPath<TValues>>(name: K, value: FieldPathValue<TValues, K>) => void;
   handleBlur: (name: string) => void;
-  handleSubmit: (e?: React.FormEvent) => Promise<void>;
+  handleSubmit: (e?: React.FormEvent) => Promise<SubmitResult>;
   reset: () => void;
   resetField: (name: string) => void;
   validate: () => boolean;
   validateField: (name: string) => FieldError | null;
+  validateFields: (names: string[]) => Promise<boolean>; // Validate a group of fields and their nested paths, including async rules
+  getFieldRuleState: (name: string) => FieldRuleState; // Resolved config.rules for a field
+  focusField: (name: string) => boolean; // Scroll to and focus a field rendered through useField; false if it is not on screen
+  announce: (message: string) => void; // Read a message out through the form's ARIA live region
+  undo: () => void; // Step back through handleChange/setValues/field array edits
+  redo: () => void;
   reloadItemData: () => Promise<void>; // Reload item data from SharePoint
+  resolveConflict: (resolution?: ConflictResolution) => Promise<SubmitResult>; // Merge with the server values and save again
+  cancelConflict: () => void; // Drop the conflict and keep editing; the next save conflicts again
   registerField?: (fieldName: string) => void; // Register field name for auto field collection
 }
 
-export interface UseFieldReturn {
-  value: any;
+export interface UseFieldReturn<TValue = any> {
+  value: TValue;
   error: FieldError | null;
   touched: boolean;
-  onChange: (value: any) => void;
+  visible: boolean;
+  required?: boolean; // Set when a rule in config.rules controls requiredness
+  disabled: boolean;
+  readOnly: boolean;
+  onChange: (value: TValue) => void;
   onBlur: () => void;
+  ref: (element: HTMLElement | null) => void; // Attach to the field's root element so focusField and focusOnError can reach it
+  ids: FieldIds;
+}
+
+// Element ids for a field, stable across renders, for wiring labels, descriptions and errors to the control
+export interface FieldIds {
+  input: string;
+  label: string;
+  description: string;
+  error: string;
+}
+
+export interface FieldArrayItem {
+  key: string; // Stable key for React lists, survives insert/remove/move
+  index: number;
+  name: string; // Path prefix for the row, e.g. `lines[2]`
+}
+
+export interface UseFieldArrayReturn<TRow = any> {
+  fields: FieldArrayItem[];
+  append: (row: TRow) => void;
+  insert: (index: number, row: TRow) => void;
+  remove: (index: number) => void;
+  move: (from: number, to: number) => void;
+  swap: (indexA: number, indexB: number) => void;
+}
+
+export interface DraftConfig {
+  storage?: 'indexedDB' | 'localStorage' | DraftStorage; // Default: IndexedDB, falling back to localStorage
+  key?: string; // Overrides the generated list/item/user key
+  userId?: string | number; // Defaults to the current SharePoint user from _spPageContextInfo
+  debounce?: number; // Delay in ms between the last edit and the autosave (default: 1000)
+}
+
+export interface FormDraft {
+  values: FormState; // Includes pending attachment File objects
+  savedAt: string; // ISO timestamp
+}
+
+export interface DraftStorage {
+  load: (key: string) => Promise<FormDraft | null>;
+  save: (key: string, draft: FormDraft) => Promise<void>;
+  remove: (key: string) => Promise<void>;
+}
+
+export interface UseDraftReturn {
+  isEnabled: boolean;
+  hasDraft: boolean; // A stored draft differs from the loaded values and is waiting for restore/discard
+  savedAt?: Date;
+  restore: () => void;
+  discard: () => void;
+}
+
+export interface UnsavedChangesGuardOptions {
+  enabled?: boolean;
+  message?: string;
+  confirm?: (message: string) => boolean | Promise<boolean>; // Custom dialog for in-page navigation (default: window.confirm)
+  interceptLinks?: boolean; // Intercept in-page link clicks (default: true); beforeunload is always hooked
+}
+
+export interface UseUnsavedChangesGuardReturn {
+  isDirty: boolean; // Edits that have not been saved yet
+  confirmNavigation: () => Promise<boolean>; // Resolves true when there is nothing to lose or the user agreed to leave
+}
+
+export interface UpdateItemOptions {
+  eTag?: string; // Sent as If-Match; without it the update overwrites whatever is on the server
+}
+
+// One request inside a $batch; all operations of a batch target the same web
+export type BatchOperation =
+  | { type: 'getItem'; listName: string; itemId: number }
+  | { type: 'addItem'; listName: string; data: any }
+  | { type: 'updateItem'; listName: string; itemId: number; data: any; eTag?: string }
+  | { type: 'deleteItem'; listName: string; itemId: number }
+  | { type: 'deleteFile'; listName: string; itemId: number; fileName: string };
+
+// Attachment uploads have binary bodies, which $batch does not carry, so they always go one by one
+export type SaveOperation = BatchOperation | { type: 'uploadFile'; listName: string; itemId: number; fileName: string };
+
+export interface SaveOperationResult {
+  operation: SaveOperation;
+  success: boolean;
+  data?: any;
+  error?: string;
+  statusCode?: number;
+  retryAfter?: number; // Seconds, when the operation was throttled
 }
 
 export interface ApiResponse<T = any> {
@@ -194,4 +531,63 @@ export interface ApiResponse<T = any> {
   data?: T;
   error?: string;
   statusCode?: number;
+  retryAfter?: number; // Seconds from the Retry-After header of a throttled (429/503) response
+}
+
+// Reads are safe to resend; create, upload and batch requests are only resent when SharePoint refused them unprocessed
+export type RequestKind = 'read' | 'create' | 'update' | 'delete' | 'upload' | 'batch';
+
+export interface RetryEvent {
+  operation: string; // API service method, e.g. 'updateItem'
+  kind: RequestKind;
+  attempt: number; // The attempt that was throttled, starting at 1
+  maxAttempts: number;
+  delay: number; // ms until the next attempt
+  statusCode?: number;
+  error?: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts?: Partial<Record<RequestKind, number>>; // Attempts including the first (default: 4 for reads, 3 for the rest)
+  baseDelay?: number; // ms before the first retry, doubled on each attempt (default: 500)
+  maxDelay?: number; // Longest wait in ms; a longer Retry-After ends the retries (default: 30000)
+  onRetry?: (event: RetryEvent) => void; // Called before each wait, e.g. to log throttling
+}
+
+export interface ListInfo {
+  LastItemModifiedDate?: string;
+  LastItemDeletedDate?: string;
+  SchemaVersion?: string | number; // Read when the list payload carries it
+}
+
+export type CacheResource = 'fieldMetadata' | 'lookupItems' | 'listInfo';
+
+export interface CacheEntry<T = any> {
+  value: T;
+  expires: number; // Epoch ms
+  version?: string; // List version the value was loaded at
+}
+
+export interface CacheStore {
+  get: (key: string) => CacheEntry | undefined;
+  set: (key: string, entry: CacheEntry) => void;
+  remove: (key: string) => void;
+  keys: () => string[];
+}
+
+export interface CacheConfig {
+  storage?: 'memory' | 'sessionStorage' | CacheStore; // Default: memory, shared by every form on the page
+  ttl?: Partial<Record<CacheResource, number>>; // ms per resource (default: 30 min metadata, 5 min lookup items, 30 s list info)
+  checkListVersion?: boolean; // Reload entries once the list's LastItemModifiedDate/SchemaVersion moves on (default: true, needs apiService.getListInfo)
+}
+
+export interface CacheLoadOptions<T = any> {
+  version?: string; // An entry stored at another version is reloaded
+  shouldCache?: (value: T) => boolean; // e.g. skip failed responses
+}
+
+export interface CacheService {
+  getOrLoad: <T>(resource: CacheResource, key: string, load: () => Promise<T>, options?: CacheLoadOptions<T>) => Promise<T>; // Concurrent calls for one key share a single load
+  invalidate: (resource?: CacheResource, key?: string) => void; // Without arguments the whole cache is dropped
+  checkListVersion: boolean;
 }
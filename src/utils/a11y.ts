@@ -0,0 +1,26 @@
+import { FieldIds } from '../types';
+
+const toIdSegment = (value: string) => value.replace(/[^A-Za-z0-9_-]/g, '_');
+
+let formIdCounter = 0;
+
+// Forms with a formId get readable ids; the others are numbered in mount order
+export const createFormIdPrefix = (formId?: string): string => {
+  return formId ? `spfx-form-${toIdSegment(formId)}` : `spfx-form-${++formIdCounter}`;
+};
+
+export const getFieldIds = (prefix: string, name: string): FieldIds => {
+  const base = `${prefix}-${toIdSegment(name)}`;
+  return {
+    input: base,
+    label: `${base}-label`,
+    description: `${base}-description`,
+    error: `${base}-error`,
+  };
+};
+
+// Joins the ids of the elements that are actually rendered, for aria-describedby / aria-labelledby
+export const joinIds = (...ids: Array<string | false | null | undefined>): string | undefined => {
+  const present = ids.filter(Boolean);
+  return present.length > 0 ? present.join(' ') : undefined;
+};
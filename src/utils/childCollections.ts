@@ -0,0 +1,175 @@
+import { ChildCollectionConfig, FieldTransforms, FormState } from '../types';
+import { mapSharePointDataToForm, mapFormDataToSharePoint } from './formHelpers';
+import { deepEqual, getDirtyFields } from './dirtyFields';
+import { getIn, setIn, joinPath } from './paths';
+import { getRowTransforms } from './fieldTransforms';
+
+const getRowId = (row: any): number | undefined => {
+  const id = row?.Id ?? row?.ID;
+  return id !== undefined && id !== null && id !== '' ? Number(id) : undefined;
+};
+
+const stripSystemFields = (row: FormState, collection: ChildCollectionConfig): FormState => {
+  const { Id, ID, ...rest } = row;
+  delete rest[collection.parentLookupField];
+  delete rest[`${collection.parentLookupField}Id`];
+  return rest;
+};
+
+export const loadChildCollections = async (
+  apiService: any,
+  collections: ChildCollectionConfig[],
+  parentId: number,
+  listUrl?: string,
+  transforms?: FieldTransforms
+): Promise<Record<string, FormState[]>> => {
+  const result: Record<string, FormState[]> = {};
+
+  if (!apiService.getListItems) {
+    throw new Error('getListItems method is not available in API service');
+  }
+
+  for (const collection of collections) {
+    const response = await apiService.getListItems(collection.listName, collection.listUrl || listUrl, {
+      select: collection.fields ? ['Id', ...collection.fields] : ['*'],
+      filter: `${collection.parentLookupField}Id eq ${parentId}`,
+    });
+
+    if (!response.success) {
+      throw new Error(response.error || `Failed to load items from ${collection.listName}`);
+    }
+
+    const items = Array.isArray(response.data)
+      ? response.data
+      : (response.data?.value || response.data?.results || []);
+
+    const rowTransforms = getRowTransforms(transforms, collection.name);
+    result[collection.name] = items.map((item: any) => mapSharePointDataToForm(item, collection.fieldMapping || {}, rowTransforms));
+  }
+
+  return result;
+};
+
+/**
+ * Create, update or delete child items so the child list matches the rows in the form.
+ * Rows without an Id are created, rows whose values changed since load are updated
+ * and rows that were loaded but are no longer present are deleted.
+ * Returns the saved rows per collection, with Ids filled in for newly created items,
+ * the rows now on the server (the baseline for the next save, so a retry only repeats what failed)
+ * and the errors of any child operation that failed.
+ */
+export const saveChildCollections = async (
+  apiService: any,
+  collections: ChildCollectionConfig[],
+  parentId: number,
+  values: FormState,
+  initialValues: FormState,
+  listUrl?: string,
+  transforms?: FieldTransforms
+): Promise<{ savedRows: Record<string, FormState[]>; baselineRows: Record<string, FormState[]>; failures: string[] }> => {
+  const savedRows: Record<string, FormState[]> = {};
+  const baselineRows: Record<string, FormState[]> = {};
+  const failures: string[] = [];
+
+  for (const collection of collections) {
+    const targetListUrl = collection.listUrl || listUrl;
+    const mapping = collection.fieldMapping || {};
+    const rowTransforms = getRowTransforms(transforms, collection.name);
+    const currentRows: FormState[] = Array.isArray(getIn(values, collection.name)) ? getIn(values, collection.name) : [];
+    const originalRows: FormState[] = Array.isArray(getIn(initialValues, collection.name)) ? getIn(initialValues, collection.name) : [];
+
+    const originalById = new Map<number, FormState>();
+    originalRows.forEach((row) => {
+      const id = getRowId(row);
+      if (id !== undefined) {
+        originalById.set(id, row);
+      }
+    });
+
+    const rows: FormState[] = [];
+    const baseline: FormState[] = [];
+    const keptIds = new Set<number>();
+
+    for (const row of currentRows) {
+      const id = getRowId(row);
+
+      if (id === undefined) {
+        const { spData } = mapFormDataToSharePoint(stripSystemFields(row, collection), mapping, undefined, undefined, rowTransforms);
+        spData[`${collection.parentLookupField}Id`] = parentId;
+        const response = await apiService.addItem(collection.listName, spData, targetListUrl);
+        if (!response.success) {
+          failures.push(response.error || `Failed to create item in ${collection.listName}`);
+          rows.push(row);
+          continue;
+        }
+        rows.push({ ...row, Id: response.data?.Id });
+        baseline.push({ ...row, Id: response.data?.Id });
+        continue;
+      }
+
+      keptIds.add(id);
+      const originalRow = originalById.get(id);
+      if (originalRow && !deepEqual(row, originalRow)) {
+        const dirtyFieldNames = getDirtyFields(stripSystemFields(row, collection), stripSystemFields(originalRow, collection));
+        if (dirtyFieldNames.length === 0) {
+          rows.push(row);
+          baseline.push(row);
+          continue;
+        }
+        const { spData } = mapFormDataToSharePoint(row, mapping, undefined, dirtyFieldNames, rowTransforms);
+        const response = await apiService.updateItem(collection.listName, id, spData, targetListUrl);
+        if (!response.success) {
+          failures.push(response.error || `Failed to update item ${id} in ${collection.listName}`);
+          rows.push(row);
+          baseline.push(originalRow);
+          continue;
+        }
+      }
+      rows.push(row);
+      baseline.push(row);
+    }
+
+    for (const id of Array.from(originalById.keys())) {
+      if (keptIds.has(id)) {
+        continue;
+      }
+      if (!apiService.deleteItem) {
+        failures.push('deleteItem method is not available in API service');
+        baseline.push(originalById.get(id)!);
+        continue;
+      }
+      const response = await apiService.deleteItem(collection.listName, id, targetListUrl);
+      if (!response.success) {
+        failures.push(response.error || `Failed to delete item ${id} in ${collection.listName}`);
+        baseline.push(originalById.get(id)!);
+      }
+    }
+
+    savedRows[collection.name] = rows;
+    baselineRows[collection.name] = baseline;
+  }
+
+  return { savedRows, baselineRows, failures };
+};
+
+/**
+ * Copy the Ids of child items created by a save into the current rows, leaving every other edit alone
+ */
+export const mergeCreatedRowIds = (
+  current: FormState,
+  submitted: FormState,
+  savedRows: Record<string, FormState[]>
+): FormState => {
+  let next = current;
+  Object.keys(savedRows).forEach((name) => {
+    const submittedRows: FormState[] = getIn(submitted, name) || [];
+    savedRows[name].forEach((row, index) => {
+      const id = getRowId(row);
+      const currentRow = getIn(next, joinPath(name, index));
+      if (id !== undefined && getRowId(submittedRows[index]) === undefined && currentRow && getRowId(currentRow) === undefined) {
+        next = setIn(next, joinPath(name, index, 'Id'), id);
+      }
+    });
+  });
+  return next;
+};
@@ -0,0 +1,78 @@
+import { ComputedField, ComputedFields, FormState } from '../types';
+import { deepEqual } from './dirtyFields';
+
+export interface ComputedFieldsResult {
+  values: FormState; // Same object as the input when no computed value changed
+  changedFields: string[];
+}
+
+const getCompute = (field: ComputedField) => (typeof field === 'function' ? field : field.compute);
+
+export const getComputedFieldNames = (computed: ComputedFields | undefined): string[] => {
+  return computed ? Object.keys(computed).filter((name) => !!computed[name]) : [];
+};
+
+// Computed fields are left out of the SharePoint payload unless they opt in with `persist: true`
+export const getUnpersistedComputedFields = (computed: ComputedFields | undefined): string[] => {
+  return getComputedFieldNames(computed).filter((name) => {
+    const field = computed![name]!;
+    return typeof field === 'function' || !field.persist;
+  });
+};
+
+/**
+ * Recalculate every computed field from `values`.
+ * A computed field that reads another one resolves it first, so dependencies are discovered from the
+ * reads themselves and fields always run in topological order; a circular dependency throws.
+ */
+export const resolveComputedFields = (
+  computed: ComputedFields | undefined,
+  values: FormState
+): ComputedFieldsResult => {
+  const names = getComputedFieldNames(computed);
+  if (names.length === 0) {
+    return { values, changedFields: [] };
+  }
+
+  const results: FormState = {};
+  const resolving: string[] = [];
+
+  const resolve = (name: string): any => {
+    if (Object.prototype.hasOwnProperty.call(results, name)) {
+      return results[name];
+    }
+    if (resolving.indexOf(name) !== -1) {
+      throw new Error(`Circular computed field dependency: ${resolving.concat(name).join(' -> ')}`);
+    }
+
+    resolving.push(name);
+    try {
+      results[name] = getCompute(computed![name]!)(scope);
+    } finally {
+      resolving.pop();
+    }
+    return results[name];
+  };
+
+  // Getters (rather than a Proxy) keep this working in older SharePoint browsers
+  const scope: FormState = {};
+  Array.from(new Set(Object.keys(values).concat(names))).forEach((key) => {
+    Object.defineProperty(scope, key, {
+      enumerable: true,
+      get: () => (names.indexOf(key) !== -1 ? resolve(key) : values[key]),
+    });
+  });
+
+  let nextValues = values;
+  const changedFields: string[] = [];
+  names.forEach((name) => {
+    const value = resolve(name);
+    if (!deepEqual(values[name], value)) {
+      nextValues = nextValues === values ? { ...values } : nextValues;
+      nextValues[name] = value;
+      changedFields.push(name);
+    }
+  });
+
+  return { values: nextValues, changedFields };
+};
@@ -0,0 +1,82 @@
+import { FormState, FormDirtyFields, SaveConflict, ConflictResolution } from '../types';
+import { deepEqual } from './dirtyFields';
+import { getRootField } from './paths';
+
+/**
+ * ETag of a list item, from minimal metadata (`odata.etag`) or verbose (`__metadata.etag`) responses
+ */
+export const getItemETag = (item: any): string | undefined => {
+  return item?.['odata.etag'] || item?.__metadata?.etag || undefined;
+};
+
+/**
+ * `fieldNames` are the columns the form itself saves; attachments, child rows and the item's other
+ * columns (system columns included) are left out, so they neither conflict nor reach the form's values
+ */
+export const buildSaveConflict = (
+  serverItem: any,
+  serverValues: FormState,
+  fieldNames: string[],
+  changedFields: string[],
+  values: FormState,
+  originalValues: FormState
+): SaveConflict => {
+  const formServerValues: FormState = {};
+  fieldNames.forEach((name) => {
+    if (name in serverValues) {
+      formServerValues[name] = serverValues[name];
+    }
+  });
+
+  return {
+    fields: changedFields
+      .filter((name) => name in formServerValues)
+      .map((name) => ({
+        name,
+        mine: values[name],
+        theirs: formServerValues[name],
+        original: originalValues[name],
+        changedOnServer: !deepEqual(formServerValues[name], originalValues[name]),
+      })),
+    serverValues: formServerValues,
+    serverItem,
+    eTag: getItemETag(serverItem),
+  };
+};
+
+/**
+ * Rebase the form on the server values: fields only the other user changed take their value,
+ * conflicting fields take the chosen side, and only the fields kept as 'mine' stay dirty.
+ * Only the form's own columns are touched, as picked by buildSaveConflict
+ */
+export const applyConflictResolution = (
+  conflict: SaveConflict,
+  resolution: ConflictResolution,
+  values: FormState,
+  originalValues: FormState,
+  dirtyFields: FormDirtyFields
+): { values: FormState; originalValues: FormState; dirtyFields: FormDirtyFields } => {
+  const conflictNames = new Set(conflict.fields.map((field) => field.name));
+  const takeTheirs = (name: string) => !conflictNames.has(name) || resolution[name] === 'theirs';
+
+  const nextValues: FormState = { ...values };
+  Object.keys(conflict.serverValues).forEach((name) => {
+    if (takeTheirs(name)) {
+      nextValues[name] = conflict.serverValues[name];
+    }
+  });
+
+  const nextDirtyFields: FormDirtyFields = {};
+  Object.keys(dirtyFields).forEach((path) => {
+    const root = getRootField(path);
+    if (dirtyFields[path] && !(root in conflict.serverValues && takeTheirs(root))) {
+      nextDirtyFields[path] = true;
+    }
+  });
+
+  return {
+    values: nextValues,
+    originalValues: { ...originalValues, ...conflict.serverValues },
+    dirtyFields: nextDirtyFields,
+  };
+};
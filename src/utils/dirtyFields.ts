@@ -1,9 +1,15 @@
-import { FormState } from '../types';
+import { FormState, FormDirtyFields } from '../types';
+import { getIn, joinPath, isNestedPath } from './paths';
 
 export const deepEqual = (a: any, b: any): boolean => {
   if (a === b) return true;
   
   if (a == null || b == null) return a === b;
+
+  // Dates have no own keys, so they are compared by time
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
   
   if (typeof a !== typeof b) return false;
   
@@ -32,7 +38,25 @@ export const deepEqual = (a: any, b: any): boolean => {
   return true;
 };
 
-export const getDirtyFields = (currentValues: FormState, initialValues: FormState): string[] => {
+const collectDirtyLeaves = (current: any, initial: any, prefix: string, dirty: string[]) => {
+  const isRecord = (value: any) => value != null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+
+  if (isRecord(current) && isRecord(initial)) {
+    const keys = new Set([...Object.keys(current), ...Object.keys(initial)]);
+    keys.forEach((key) => collectDirtyLeaves(current[key], initial[key], joinPath(prefix, key), dirty));
+    return;
+  }
+
+  if (!deepEqual(current, initial)) {
+    dirty.push(prefix);
+  }
+};
+
+export const getDirtyFields = (
+  currentValues: FormState,
+  initialValues: FormState,
+  fieldArrays: string[] = []
+): string[] => {
   const dirty: string[] = [];
   
   const allKeys = new Set([...Object.keys(currentValues), ...Object.keys(initialValues)]);
@@ -45,7 +69,65 @@ export const getDirtyFields = (currentValues: FormState, initialValues: FormStat
       dirty.push(key);
     }
   });
+
+  // Field arrays also report per-row paths (`lines[0].Amount`) so each row can be tracked on its own
+  fieldArrays.forEach((arrayName) => {
+    const currentRows = getIn(currentValues, arrayName);
+    const initialRows = getIn(initialValues, arrayName);
+    const rows = Array.isArray(currentRows) ? currentRows : [];
+    const originalRows = Array.isArray(initialRows) ? initialRows : [];
+
+    for (let i = 0; i < Math.max(rows.length, originalRows.length); i++) {
+      collectDirtyLeaves(rows[i], originalRows[i], joinPath(arrayName, i), dirty);
+    }
+  });
   
   return dirty;
 };
 
+/**
+ * Rebuild the dirty map for a whole values object, e.g. after undo/redo.
+ * Field arrays report per-row paths; other nested paths that were tracked (`address.City`) are kept while they still differ.
+ */
+export const computeDirtyFields = (
+  currentValues: FormState,
+  initialValues: FormState,
+  trackedPaths: string[] = []
+): FormDirtyFields => {
+  const fieldArrays = Object.keys({ ...initialValues, ...currentValues }).filter(
+    (key) => Array.isArray(currentValues[key]) || Array.isArray(initialValues[key])
+  );
+
+  const dirty: FormDirtyFields = {};
+  getDirtyFields(currentValues, initialValues, fieldArrays).forEach((path) => {
+    dirty[path] = true;
+  });
+
+  trackedPaths.forEach((path) => {
+    if (isNestedPath(path) && !deepEqual(getIn(currentValues, path), getIn(initialValues, path))) {
+      dirty[path] = true;
+    }
+  });
+
+  return dirty;
+};
+
+/**
+ * Re-check only the given paths against their initial values, e.g. an edited field and the computed fields it changed
+ */
+export const updateDirtyPaths = (
+  dirtyFields: FormDirtyFields,
+  paths: string[],
+  currentValues: FormState,
+  initialValues: FormState
+): FormDirtyFields => {
+  const next = { ...dirtyFields };
+  paths.forEach((path) => {
+    if (deepEqual(getIn(currentValues, path), getIn(initialValues, path))) {
+      delete next[path];
+    } else {
+      next[path] = true;
+    }
+  });
+  return next;
+};
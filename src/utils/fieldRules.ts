@@ -0,0 +1,51 @@
+import { FieldRules, FieldRuleState, FormState } from '../types';
+import { expandPathPattern, getByPathPattern, getIn, setIn } from './paths';
+
+const RULE_KEYS: Array<keyof FieldRuleState> = ['visible', 'required', 'disabled', 'readOnly'];
+
+export const resolveFieldRuleState = (
+  rules: FieldRules | undefined,
+  values: FormState,
+  fieldName: string
+): FieldRuleState => {
+  const rule = getByPathPattern(rules, fieldName);
+  const state: FieldRuleState = {};
+  if (!rule) return state;
+
+  RULE_KEYS.forEach((key) => {
+    const condition = rule[key];
+    if (condition === undefined) return;
+    state[key] = typeof condition === 'function' ? !!condition(values, fieldName) : condition;
+  });
+
+  return state;
+};
+
+export const getRuleFieldPaths = (rules: FieldRules | undefined, values: FormState): string[] => {
+  if (!rules) return [];
+
+  const paths: string[] = [];
+  Object.keys(rules).forEach((key) => {
+    paths.push(...expandPathPattern(values, key));
+  });
+  return paths;
+};
+
+export const getHiddenFields = (rules: FieldRules | undefined, values: FormState): string[] => {
+  return getRuleFieldPaths(rules, values).filter(
+    (path) => resolveFieldRuleState(rules, values, path).visible === false
+  );
+};
+
+export const clearHiddenFields = (
+  rules: FieldRules | undefined,
+  values: FormState
+): { values: FormState; clearedFields: string[] } => {
+  const clearedFields = getHiddenFields(rules, values).filter((path) => {
+    const value = getIn(values, path);
+    return value !== null && value !== undefined && value !== '';
+  });
+
+  const cleared = clearedFields.reduce((result, path) => setIn(result, path, null), values);
+  return { values: cleared, clearedFields };
+};
@@ -0,0 +1,52 @@
+import { FieldTransform, FieldTransforms, FormState } from '../types';
+import { getByPathPattern, WILDCARD } from './paths';
+
+export const getFieldTransform = (
+  transforms: FieldTransforms | undefined,
+  name: string
+): FieldTransform | undefined => {
+  return getByPathPattern(transforms, name);
+};
+
+// Stored value -> displayed value
+export const formatFieldValue = (transforms: FieldTransforms | undefined, name: string, value: any): any => {
+  const transform = getFieldTransform(transforms, name);
+  return transform?.format ? transform.format(value, name) : value;
+};
+
+// Displayed value -> stored value
+export const parseFieldValue = (transforms: FieldTransforms | undefined, name: string, displayValue: any): any => {
+  const transform = getFieldTransform(transforms, name);
+  return transform?.parse ? transform.parse(displayValue, name) : displayValue;
+};
+
+export const normalizeFieldValue = (transforms: FieldTransforms | undefined, name: string, value: any): any => {
+  const transform = getFieldTransform(transforms, name);
+  return transform?.normalize ? transform.normalize(value, name) : value;
+};
+
+export const normalizeValues = (transforms: FieldTransforms | undefined, values: FormState): FormState => {
+  if (!transforms) return values;
+
+  const normalized: FormState = {};
+  Object.keys(values).forEach((key) => {
+    normalized[key] = normalizeFieldValue(transforms, key, values[key]);
+  });
+  return normalized;
+};
+
+/**
+ * Transforms of a field array's rows keyed by the row field, e.g. `lines[*].Code` -> `Code`, for saving child items
+ */
+export const getRowTransforms = (transforms: FieldTransforms | undefined, arrayName: string): FieldTransforms | undefined => {
+  if (!transforms) return undefined;
+
+  const prefix = `${arrayName}[${WILDCARD}].`;
+  const rowTransforms: FieldTransforms = {};
+  Object.keys(transforms).forEach((key) => {
+    if (key.indexOf(prefix) === 0) {
+      rowTransforms[key.slice(prefix.length)] = transforms[key];
+    }
+  });
+  return rowTransforms;
+};
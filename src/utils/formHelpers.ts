@@ -1,4 +1,8 @@
-import { FormState } from '../types';
+import { FieldTransforms, FormState } from '../types';
+import { normalizeFieldValue, normalizeValues } from './fieldTransforms';
+
+// Attachment fields hold the item's files, not a column value
+export const isAttachmentField = (name: string): boolean => name.toLowerCase().includes('attachment');
 
 export const extractWebUrl = (url?: string): string | undefined => {
   if (!url) return undefined;
@@ -17,7 +21,8 @@ export const extractWebUrl = (url?: string): string | undefined => {
 
 export const mapSharePointDataToForm = (
   spData: any,
-  fieldMapping: Record<string, string>
+  fieldMapping: Record<string, string>,
+  transforms?: FieldTransforms
 ): FormState => {
   const mappedData: FormState = {};
   const processedFields = new Set<string>();
@@ -71,14 +76,15 @@ export const mapSharePointDataToForm = (
     processedFields.add(spFieldName);
   });
 
-  return mappedData;
+  return normalizeValues(transforms, mappedData);
 };
 
 export const mapFormDataToSharePoint = (
   formData: FormState,
   fieldMapping: Record<string, string>,
   originalAttachments?: any[],
-  dirtyFields?: string[]
+  dirtyFields?: string[],
+  transforms?: FieldTransforms
 ): { spData: any; filesToUpload: Array<{ formFieldName: string; attachment: any }>; filesToDelete: Array<{ formFieldName: string; fileName: string }> } => {
   const reverseMapping: Record<string, string> = {};
   Object.keys(fieldMapping).forEach((spField) => {
@@ -93,12 +99,11 @@ export const mapFormDataToSharePoint = (
 
   fieldsToProcess.forEach((formFieldName) => {
     const spFieldName = reverseMapping[formFieldName] || formFieldName;
-    const fieldValue = formData[formFieldName];
+    const fieldValue = normalizeFieldValue(transforms, formFieldName, formData[formFieldName]);
 
-    const isAttachmentField = formFieldName.toLowerCase().includes('attachment') || 
-                              spFieldName.toLowerCase().includes('attachment');
+    const isAttachment = isAttachmentField(formFieldName) || isAttachmentField(spFieldName);
 
-    if (Array.isArray(fieldValue) && isAttachmentField) {
+    if (Array.isArray(fieldValue) && isAttachment) {
       const currentFileNames = new Set(
         fieldValue
           .filter((item: any) => item?.id || item?.name)
@@ -141,7 +146,7 @@ export const mapFormDataToSharePoint = (
       }
     } else if (typeof fieldValue === 'object' && fieldValue !== null && fieldValue.Id !== undefined) {
       spData[`${spFieldName}Id`] = fieldValue.Id;
-    } else if (!isAttachmentField) {
+    } else if (!isAttachment) {
       spData[spFieldName] = fieldValue;
     }
   });
@@ -0,0 +1,8 @@
+/**
+ * Fill `{name}` placeholders in a message; unknown placeholders are left as they are
+ */
+export const formatMessage = (template: string, params: Record<string, any> = {}): string => {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) =>
+    params[key] !== undefined && params[key] !== null ? String(params[key]) : match
+  );
+};
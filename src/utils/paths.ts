@@ -0,0 +1,162 @@
+/**
+ * Helpers for dot/bracket field paths such as `lines[2].Amount`.
+ * Plain field names (`Title`) are valid single-segment paths, so every helper
+ * behaves exactly like a flat property access for them.
+ */
+
+export const WILDCARD = '*';
+
+export const toPath = (path: string): string[] => {
+  if (!path) return [];
+  return path
+    .replace(/\[([^\]]*)\]/g, '.$1')
+    .split('.')
+    .filter((segment) => segment !== '');
+};
+
+export const joinPath = (...segments: Array<string | number>): string => {
+  return segments.reduce<string>((result, segment) => {
+    if (typeof segment === 'number' || /^\d+$/.test(segment) || segment === WILDCARD) {
+      return `${result}[${segment}]`;
+    }
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+};
+
+export const isNestedPath = (path: string): boolean => /[.[]/.test(path);
+
+export const getRootField = (path: string): string => toPath(path)[0] || path;
+
+export const getIn = (obj: any, path: string): any => {
+  if (!isNestedPath(path)) {
+    return obj == null ? undefined : obj[path];
+  }
+
+  let current = obj;
+  for (const segment of toPath(path)) {
+    if (current == null) return undefined;
+    current = current[segment];
+  }
+  return current;
+};
+
+const setInSegments = (obj: any, segments: string[], value: any): any => {
+  const [head, ...rest] = segments;
+  const isIndex = /^\d+$/.test(head);
+  const clone: any = Array.isArray(obj)
+    ? [...obj]
+    : obj != null && typeof obj === 'object'
+      ? { ...obj }
+      : isIndex ? [] : {};
+
+  if (rest.length === 0) {
+    clone[isIndex ? Number(head) : head] = value;
+    return clone;
+  }
+
+  const key = isIndex ? Number(head) : head;
+  clone[key] = setInSegments(clone[key], rest, value);
+  return clone;
+};
+
+/**
+ * Immutable set. Intermediate arrays are created for numeric segments.
+ */
+export const setIn = <T = any>(obj: T, path: string, value: any): T => {
+  if (!isNestedPath(path)) {
+    return { ...(obj as any), [path]: value };
+  }
+  return setInSegments(obj, toPath(path), value);
+};
+
+/**
+ * True when `path` equals `parent` or lives underneath it (`lines[0].Amount` is within `lines`).
+ */
+export const isPathWithin = (path: string, parent: string): boolean => {
+  return path === parent || path.startsWith(`${parent}.`) || path.startsWith(`${parent}[`);
+};
+
+/**
+ * Check whether a concrete path matches a pattern that may contain `[*]` wildcards.
+ */
+export const matchesPathPattern = (pattern: string, path: string): boolean => {
+  const patternSegments = toPath(pattern);
+  const pathSegments = toPath(path);
+  if (patternSegments.length !== pathSegments.length) return false;
+  return patternSegments.every(
+    (segment, i) => segment === pathSegments[i] || (segment === WILDCARD && /^\d+$/.test(pathSegments[i]))
+  );
+};
+
+/**
+ * Look up a path in a map whose keys may be exact paths or `[*]` patterns. Exact keys win.
+ */
+export const getByPathPattern = <T>(map: Record<string, T> | undefined, path: string): T | undefined => {
+  if (!map) return undefined;
+  if (map[path] !== undefined) return map[path];
+
+  const patternKey = Object.keys(map).find((key) => matchesPathPattern(key, path));
+  return patternKey !== undefined ? map[patternKey] : undefined;
+};
+
+/**
+ * Expand a pattern such as `lines[*].Amount` into the concrete paths present in `values`.
+ */
+export const expandPathPattern = (values: any, pattern: string): string[] => {
+  const segments = toPath(pattern);
+  if (!segments.includes(WILDCARD)) {
+    return [pattern];
+  }
+
+  const results: string[] = [];
+  const walk = (current: any, index: number, prefix: string) => {
+    if (index === segments.length) {
+      results.push(prefix);
+      return;
+    }
+    const segment = segments[index];
+    if (segment === WILDCARD) {
+      if (!Array.isArray(current)) return;
+      current.forEach((item, i) => walk(item, index + 1, joinPath(prefix, i)));
+      return;
+    }
+    walk(current == null ? undefined : current[segment], index + 1, joinPath(prefix, segment));
+  };
+
+  walk(values, 0, '');
+  return results;
+};
+
+/**
+ * Re-key a path-keyed map (errors, touched, dirtyFields) after rows of a field array moved.
+ * `remap` receives the old row index and returns the new one, or undefined when the row was removed.
+ */
+export const reindexArrayKeys = <T>(
+  map: Record<string, T>,
+  arrayName: string,
+  remap: (index: number) => number | undefined
+): Record<string, T> => {
+  const prefix = `${arrayName}[`;
+  const result: Record<string, T> = {};
+
+  Object.keys(map).forEach((key) => {
+    if (!key.startsWith(prefix)) {
+      result[key] = map[key];
+      return;
+    }
+
+    const closing = key.indexOf(']', prefix.length);
+    const oldIndex = Number(key.substring(prefix.length, closing));
+    if (closing === -1 || isNaN(oldIndex)) {
+      result[key] = map[key];
+      return;
+    }
+
+    const newIndex = remap(oldIndex);
+    if (newIndex !== undefined) {
+      result[`${prefix}${newIndex}${key.substring(closing)}`] = map[key];
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,161 @@
+import { FormErrors, FormMessages } from '../types';
+import { FORM_ERROR } from './validation';
+import { formatMessage } from './messages';
+import { en } from '../locales/en';
+
+export type SaveErrorType = 'required' | 'invalidValue' | 'validation';
+
+export interface SaveFieldError {
+  field: string; // SharePoint field name (internal or display name, as the server reported it)
+  message: string; // Server message
+  type: SaveErrorType;
+}
+
+export interface ParsedSaveError {
+  message: string; // Readable server message, without the HTTP/JSON wrapping
+  code?: string; // e.g. '-2130575163, Microsoft.SharePoint.SPException'
+  fieldErrors: SaveFieldError[];
+}
+
+const REQUIRED_PATTERN = /(?:field|column)\s+['"“]?([^'"”]+?)['"”]?\s+is\s+required/i;
+const PROPERTY_PATTERN = /property\s+['"]([^'"]+)['"]/i;
+const CONVERSION_PATTERN = /cannot convert|cannot be converted|expected type|invalid (?:number|date|text|lookup|choice|user)|not a valid/i;
+
+// PnP errors read "Error making HttpClient request in queryable [400] Bad Request ::> {json}"; fetch errors are the raw body
+const parsePayload = (text: string): any => {
+  const markerIndex = text.indexOf('::>');
+  const candidate = (markerIndex >= 0 ? text.slice(markerIndex + 3) : text).trim();
+  if (candidate.startsWith('{') || candidate.startsWith('[')) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Not JSON after all
+    }
+  }
+  return markerIndex >= 0 ? candidate : text;
+};
+
+const readODataError = (payload: any): { message: string; code?: string } | null => {
+  const odataError = payload?.['odata.error'] || payload?.error;
+  if (!odataError || typeof odataError !== 'object') {
+    return null;
+  }
+  const message = typeof odataError.message === 'string' ? odataError.message : odataError.message?.value;
+  return message ? { message, code: odataError.code } : null;
+};
+
+// ValidateUpdateListItem / AddValidateUpdateItemUsingPath report one entry per field
+const readFieldResults = (payload: any): SaveFieldError[] | null => {
+  const results = Array.isArray(payload)
+    ? payload
+    : payload?.value || payload?.d?.ValidateUpdateListItem?.results || payload?.d?.AddValidateUpdateItemUsingPath?.results;
+  if (!Array.isArray(results) || !results.some((result) => result && 'FieldName' in result)) {
+    return null;
+  }
+  return results
+    .filter((result) => result?.HasException && result.FieldName)
+    .map((result) => ({ field: result.FieldName, message: result.ErrorMessage || '', type: 'validation' as SaveErrorType }));
+};
+
+// Single-message errors only name a field for "required" and type-conversion failures;
+// column and list validation (ValidationFormula / ClientValidationFormula) only carry the validation message
+const classifyMessage = (message: string): SaveFieldError | null => {
+  const required = REQUIRED_PATTERN.exec(message);
+  if (required) {
+    return { field: required[1].trim(), message, type: 'required' };
+  }
+  const property = PROPERTY_PATTERN.exec(message);
+  if (property && CONVERSION_PATTERN.test(message)) {
+    return { field: property[1], message, type: 'invalidValue' };
+  }
+  return null;
+};
+
+/**
+ * Read a failed save's error (Error, PnP error message, REST response body or parsed JSON)
+ */
+export const parseSharePointError = (error: any): ParsedSaveError => {
+  const payload = typeof error === 'string'
+    ? parsePayload(error)
+    : error instanceof Error ? parsePayload(error.message) : error;
+
+  if (typeof payload === 'string') {
+    const fieldError = classifyMessage(payload);
+    return { message: payload, fieldErrors: fieldError ? [fieldError] : [] };
+  }
+
+  const fieldResults = readFieldResults(payload);
+  if (fieldResults) {
+    return {
+      message: fieldResults.map((result) => result.message).filter(Boolean).join('; '),
+      fieldErrors: fieldResults,
+    };
+  }
+
+  const odataError = readODataError(payload);
+  if (odataError) {
+    const fieldError = classifyMessage(odataError.message);
+    return { message: odataError.message, code: odataError.code, fieldErrors: fieldError ? [fieldError] : [] };
+  }
+
+  const message = payload?.message || (payload ? JSON.stringify(payload) : 'Failed to save item');
+  return { message, fieldErrors: [] };
+};
+
+// 'Start_x0020_Date', 'Start Date' and 'StartDate' all compare equal
+const normalizeFieldName = (name: string): string =>
+  name
+    .replace(/_x([0-9a-f]{4})_/gi, (_match, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/[^a-z0-9]/gi, '')
+    .toLowerCase();
+
+const resolveFormField = (spField: string, fieldMapping: Record<string, string>, fieldNames: string[]): string | undefined => {
+  // Lookup and person columns are saved as `{Field}Id`
+  const candidates = [spField, ...(/.Id$/.test(spField) ? [spField.slice(0, -2)] : [])].map(normalizeFieldName);
+
+  for (const candidate of candidates) {
+    const mappedKey = Object.keys(fieldMapping).find((key) => normalizeFieldName(key) === candidate);
+    const name = mappedKey
+      ? fieldMapping[mappedKey]
+      : fieldNames.find((fieldName) => normalizeFieldName(fieldName) === candidate);
+    if (name) {
+      return name;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Turn a parsed save error into form errors, keyed by form field name through `fieldMapping`
+ * Errors that match no field (and messages that name none) end up under FORM_ERROR
+ */
+export const mapSaveErrorsToFields = (
+  parsed: ParsedSaveError,
+  fieldMapping: Record<string, string>,
+  fieldNames: string[],
+  messages: FormMessages = en
+): FormErrors => {
+  const errors: FormErrors = {};
+  const unmatched: string[] = [];
+
+  parsed.fieldErrors.forEach((fieldError) => {
+    const name = resolveFormField(fieldError.field, fieldMapping, fieldNames);
+    if (!name) {
+      unmatched.push(fieldError.message);
+      return;
+    }
+    // Column validation messages are written by the list owner; the others are technical and get the catalog text
+    const message = fieldError.type === 'validation'
+      ? fieldError.message
+      : formatMessage(messages[fieldError.type], { label: name });
+    errors[name] = { message, type: fieldError.type };
+  });
+
+  if (parsed.fieldErrors.length === 0) {
+    unmatched.push(parsed.message);
+  }
+  if (unmatched.length > 0) {
+    errors[FORM_ERROR] = { message: unmatched.filter(Boolean).join('; ') || parsed.message, type: 'server' };
+  }
+  return errors;
+};
@@ -0,0 +1,120 @@
+import { ApiResponse, SaveOperation, SaveOperationResult } from '../types';
+
+interface UpdateItemWithAttachmentsOptions {
+  listName: string;
+  itemId: number;
+  data: any;
+  eTag?: string;
+  fileNamesToDelete: string[];
+  listUrl?: string;
+}
+
+const toOperationResult = (operation: SaveOperation, response: ApiResponse<any>): SaveOperationResult => ({
+  operation,
+  success: response.success,
+  data: response.data,
+  error: response.error,
+  statusCode: response.statusCode,
+});
+
+// Attachment requests on one item run one at a time; parallel writes to an item hit SharePoint save conflicts
+const pause = () => new Promise((resolve) => setTimeout(resolve, 100));
+
+export const deleteAttachments = async (
+  apiService: any,
+  listName: string,
+  itemId: number,
+  fileNames: string[],
+  listUrl?: string
+): Promise<SaveOperationResult[]> => {
+  const results: SaveOperationResult[] = [];
+  for (let i = 0; i < fileNames.length; i++) {
+    const operation: SaveOperation = { type: 'deleteFile', listName, itemId, fileName: fileNames[i] };
+    if (!apiService.deleteFile) {
+      results.push({ operation, success: false, error: 'deleteFile method is not available in API service' });
+      continue;
+    }
+    try {
+      results.push(toOperationResult(operation, await apiService.deleteFile(listName, itemId, fileNames[i], listUrl)));
+    } catch (error: any) {
+      results.push({ operation, success: false, error: error.message || 'Failed to delete file' });
+    }
+    if (i < fileNames.length - 1) {
+      await pause();
+    }
+  }
+  return results;
+};
+
+export const uploadAttachments = async (
+  apiService: any,
+  listName: string,
+  itemId: number,
+  attachments: Array<{ file: File; name?: string }>,
+  listUrl?: string
+): Promise<SaveOperationResult[]> => {
+  const results: SaveOperationResult[] = [];
+  for (let i = 0; i < attachments.length; i++) {
+    const { file, name } = attachments[i];
+    const operation: SaveOperation = { type: 'uploadFile', listName, itemId, fileName: name || file.name };
+    if (!apiService.uploadFile) {
+      results.push({ operation, success: false, error: 'uploadFile method is not available in API service' });
+      continue;
+    }
+    try {
+      results.push(toOperationResult(operation, await apiService.uploadFile(listName, itemId, file, name, listUrl)));
+    } catch (error: any) {
+      results.push({ operation, success: false, error: error.message || 'Failed to upload file' });
+    }
+    if (i < attachments.length - 1) {
+      await pause();
+    }
+  }
+  return results;
+};
+
+/**
+ * Update an item and delete attachments from it
+ * With `apiService.batch` the update and a read of the saved item go in one $batch request,
+ * and the deletes follow in a second one; either way they only run once the update went through.
+ * Attachment changes bump the item's version, so callers re-read the ETag after them
+ */
+export const updateItemWithAttachments = async (
+  apiService: any,
+  { listName, itemId, data, eTag, fileNamesToDelete, listUrl }: UpdateItemWithAttachmentsOptions
+): Promise<{ update: SaveOperationResult; deletes: SaveOperationResult[] }> => {
+  const updateOperation: SaveOperation = { type: 'updateItem', listName, itemId, data, eTag };
+
+  if (apiService.batch) {
+    const response: ApiResponse<SaveOperationResult[]> = await apiService.batch([
+      updateOperation,
+      { type: 'getItem', listName, itemId },
+    ], listUrl);
+
+    if (!response.success || !response.data) {
+      return { update: toOperationResult(updateOperation, response), deletes: [] };
+    }
+
+    const [update, read] = response.data;
+    if (!update.success || fileNamesToDelete.length === 0) {
+      // An update answers 204 with no body; the saved item comes from the read after it
+      return { update: update.success && read?.success ? { ...update, data: read.data } : update, deletes: [] };
+    }
+
+    // SharePoint does not roll back a $batch, so the deletes wait for the update in a batch of their own
+    const deleteOperations = fileNamesToDelete.map((fileName): SaveOperation => ({ type: 'deleteFile', listName, itemId, fileName }));
+    const deleteResponse: ApiResponse<SaveOperationResult[]> = await apiService.batch(deleteOperations, listUrl);
+    return {
+      update: read?.success ? { ...update, data: read.data } : update,
+      deletes: deleteResponse.success && deleteResponse.data
+        ? deleteResponse.data
+        : deleteOperations.map((operation) => toOperationResult(operation, deleteResponse)),
+    };
+  }
+
+  const response = await apiService.updateItem(listName, itemId, data, listUrl, eTag ? { eTag } : undefined);
+  return {
+    update: toOperationResult(updateOperation, response),
+    deletes: response.success ? await deleteAttachments(apiService, listName, itemId, fileNamesToDelete, listUrl) : [],
+  };
+};
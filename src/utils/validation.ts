@@ -1,12 +1,37 @@
-import { ValidationRule, FieldError } from '../types';
+import { ValidationRule, ValidationSchema, ValidationMessageKey, FieldError, FieldRules, FormErrors, FormMessages, FormState } from '../types';
+import { getIn, expandPathPattern, getByPathPattern, matchesPathPattern, getRootField } from './paths';
+import { resolveFieldRuleState, getRuleFieldPaths } from './fieldRules';
+import { formatMessage } from './messages';
+import { en } from '../locales/en';
 
-export const validateField = (value: any, rules?: ValidationRule): FieldError | null => {
+export const FORM_ERROR = 'formError';
+
+export interface ValidateFieldOptions {
+  name?: string; // Field path, used for `{label}` when the rule has no label
+  messages?: FormMessages; // Defaults to the English catalog
+}
+
+export const validateField = (
+  value: any,
+  rules?: ValidationRule,
+  values: FormState = {},
+  { name, messages = en }: ValidateFieldOptions = {}
+): FieldError | null => {
   if (!rules) return null;
 
+  // A rule-level `message` wins over the catalog; rule parameters and the label are interpolated either way
+  const fail = (type: ValidationMessageKey, params: Record<string, any> = {}): FieldError => {
+    const override = typeof rules.message === 'string' ? rules.message : rules.message?.[type];
+    return {
+      message: formatMessage(override ?? messages[type], { label: rules.label ?? name, value, ...params }),
+      type,
+    };
+  };
+
   // Required validation
   if (rules.required) {
     if (value === null || value === undefined || value === '') {
-      return { message: 'This field is required', type: 'required' };
+      return fail('required');
     }
   }
 
@@ -19,26 +44,20 @@ export const validateField = (value: any, rules?: ValidationRule): FieldError |
   if (rules.email || rules.pattern) {
     const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (rules.email && typeof value === 'string' && !emailPattern.test(value)) {
-      return { message: 'Please enter a valid email address', type: 'email' };
+      return fail('email');
     }
     if (rules.pattern && typeof value === 'string' && !rules.pattern.test(value)) {
-      return { message: 'Please enter a valid value', type: 'pattern' };
+      return fail('pattern', { pattern: rules.pattern.source });
     }
   }
 
   // String length validations
   if (typeof value === 'string') {
     if (rules.minLength !== undefined && value.length < rules.minLength) {
-      return {
-        message: `Minimum length is ${rules.minLength} characters`,
-        type: 'minLength',
-      };
+      return fail('minLength', { minLength: rules.minLength });
     }
     if (rules.maxLength !== undefined && value.length > rules.maxLength) {
-      return {
-        message: `Maximum length is ${rules.maxLength} characters`,
-        type: 'maxLength',
-      };
+      return fail('maxLength', { maxLength: rules.maxLength });
     }
   }
 
@@ -46,16 +65,16 @@ export const validateField = (value: any, rules?: ValidationRule): FieldError |
   if (typeof value === 'number' || (typeof value === 'string' && !isNaN(Number(value)))) {
     const numValue = typeof value === 'number' ? value : Number(value);
     if (rules.min !== undefined && numValue < rules.min) {
-      return { message: `Minimum value is ${rules.min}`, type: 'min' };
+      return fail('min', { min: rules.min });
     }
     if (rules.max !== undefined && numValue > rules.max) {
-      return { message: `Maximum value is ${numValue}`, type: 'max' };
+      return fail('max', { max: rules.max });
     }
   }
 
   // Custom validation
   if (rules.custom) {
-    const customError = rules.custom(value);
+    const customError = rules.custom(value, values);
     if (customError) {
       return { message: customError, type: 'custom' };
     }
@@ -64,20 +83,114 @@ export const validateField = (value: any, rules?: ValidationRule): FieldError |
   return null;
 };
 
+export const getFieldRules = (
+  validationSchema: ValidationSchema | undefined,
+  path: string
+): ValidationRule | undefined => {
+  return getByPathPattern(validationSchema, path);
+};
+
+/**
+ * Validation rules for a field after applying config.rules.
+ * Hidden fields are not validated; a `required` rule overrides the schema.
+ */
+export const getEffectiveRules = (
+  values: Record<string, any>,
+  path: string,
+  validationSchema?: ValidationSchema,
+  fieldRules?: FieldRules
+): ValidationRule | undefined => {
+  const rules = getFieldRules(validationSchema, path);
+  if (!fieldRules) return rules;
+
+  const state = resolveFieldRuleState(fieldRules, values, path);
+  if (state.visible === false) return undefined;
+  if (state.required === undefined) return rules;
+  return { ...(rules || {}), required: state.required };
+};
+
+export const getValidationPaths = (
+  values: Record<string, any>,
+  validationSchema?: ValidationSchema,
+  fieldRules?: FieldRules
+): string[] => {
+  const paths: string[] = [];
+  Object.keys(validationSchema || {}).forEach((key) => {
+    paths.push(...expandPathPattern(values, key));
+  });
+  getRuleFieldPaths(fieldRules, values).forEach((path) => {
+    if (!paths.includes(path)) {
+      paths.push(path);
+    }
+  });
+  return paths;
+};
+
 export const validateForm = (
   values: Record<string, any>,
-  validationSchema?: Record<string, ValidationRule>
+  validationSchema?: ValidationSchema,
+  fieldRules?: FieldRules,
+  messages?: FormMessages
 ): Record<string, FieldError | null> => {
   const errors: Record<string, FieldError | null> = {};
 
-  if (!validationSchema) return errors;
+  if (!validationSchema && !fieldRules) return errors;
+
+  getValidationPaths(values, validationSchema, fieldRules).forEach((fieldPath) => {
+    const rules = getEffectiveRules(values, fieldPath, validationSchema, fieldRules);
+    const value = getIn(values, fieldPath);
+    errors[fieldPath] = validateField(value, rules, values, { name: fieldPath, messages });
+  });
 
-  Object.keys(validationSchema).forEach((fieldName) => {
-    const rules = validationSchema[fieldName];
-    const value = values[fieldName];
-    errors[fieldName] = validateField(value, rules);
+  return errors;
+};
+
+/**
+ * Fields whose `dependsOn` list references the changed field
+ */
+export const getDependentFields = (
+  values: Record<string, any>,
+  changedField: string,
+  validationSchema?: ValidationSchema,
+  fieldRules?: FieldRules
+): string[] => {
+  return getValidationPaths(values, validationSchema, fieldRules).filter((path) => {
+    if (path === changedField) return false;
+    const dependsOn = getFieldRules(validationSchema, path)?.dependsOn;
+    return !!dependsOn && dependsOn.some(
+      (dependency) =>
+        dependency === changedField ||
+        dependency === getRootField(changedField) ||
+        matchesPathPattern(dependency, changedField)
+    );
   });
+};
+
+export const validateFormLevel = (
+  values: FormState,
+  validate?: (values: FormState) => FormErrors
+): FormErrors => {
+  if (!validate) return {};
 
+  const result = validate(values) || {};
+  const errors: FormErrors = {};
+  Object.keys(result).forEach((key) => {
+    if (result[key]) {
+      errors[key] = result[key];
+    }
+  });
   return errors;
 };
 
+/**
+ * Field errors win over form-level errors for the same field
+ */
+export const mergeErrors = (fieldErrors: FormErrors, formLevelErrors: FormErrors): FormErrors => {
+  const merged: FormErrors = { ...fieldErrors };
+  Object.keys(formLevelErrors).forEach((key) => {
+    if (!merged[key]) {
+      merged[key] = formLevelErrors[key];
+    }
+  });
+  return merged;
+};